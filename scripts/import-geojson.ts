@@ -0,0 +1,63 @@
+/**
+ * Replace src/data/lots.ts with the lots in a GeoJSON FeatureCollection, e.g.
+ * boundaries maintained in QGIS or geojson.io.
+ *
+ *   npm run import:geojson -- boundaries.geojson [--dry-run]
+ *
+ * Features are matched to existing lots by `id`; properties a feature leaves
+ * out (capacity, visitor spaces, …) keep their current values, so a file with
+ * only boundaries and ids is enough to update shapes. Lots missing from the
+ * file are removed. Nothing is written if any feature is invalid or the
+ * resulting dataset fails validation (see validate-lots.ts).
+ */
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { parkingLots } from "@/data/lots";
+import { geoJSONToLots } from "@/lib/geojson";
+import { formatLotsModule } from "@/lib/lot-source";
+import { formatValidationReport, validateLots } from "@/lib/lot-validation";
+
+const OUTPUT = path.join(__dirname, "../src/data/lots.ts");
+
+const args = process.argv.slice(2);
+const file = args.find((a) => !a.startsWith("--"));
+const dryRun = args.includes("--dry-run");
+if (!file) {
+  console.error("usage: npm run import:geojson -- <file.geojson> [--dry-run]");
+  process.exit(1);
+}
+
+let data: unknown;
+try {
+  data = JSON.parse(readFileSync(file, "utf8"));
+} catch (err) {
+  console.error(`import-geojson: could not read ${file}: ${(err as Error).message}`);
+  process.exit(1);
+}
+
+const { lots, errors } = geoJSONToLots(data, parkingLots);
+if (errors.length > 0) {
+  console.error(`import-geojson: ${errors.length} problem(s), nothing written:`);
+  for (const e of errors) console.error(`  ${e}`);
+  process.exit(1);
+}
+
+const invalid = validateLots(lots).filter((i) => i.severity === "error");
+if (invalid.length > 0) {
+  console.error(formatValidationReport(invalid, lots.length));
+  console.error("import-geojson: dataset has errors, nothing written");
+  process.exit(1);
+}
+
+const ids = new Set(lots.map((lot) => lot.id));
+const added = lots.filter((lot) => !parkingLots.some((old) => old.id === lot.id));
+const removed = parkingLots.filter((lot) => !ids.has(lot.id));
+
+console.log(`${lots.length} lots: ${added.length} added, ${removed.length} removed`);
+for (const lot of added) console.log(`  + ${lot.name} (${lot.id})`);
+for (const lot of removed) console.log(`  - ${lot.name} (${lot.id})`);
+
+if (!dryRun) {
+  writeFileSync(OUTPUT, formatLotsModule(lots));
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * Build src/data/occupancy.json from a CSV of hand-collected occupancy counts.
+ *
+ *   node scripts/import-occupancy.mjs counts.csv [--source "Fall 2026 counts"]
+ *
+ * The CSV needs a header row with these columns (any order, extra columns ignored):
+ *
+ *   lot_id,date,time,occupied
+ *   197866,2026-09-14,08:45,41
+ *
+ * `date` is YYYY-MM-DD and `time` is 24-hour HH:MM, both Eastern. Counts are
+ * averaged per lot, weekday and 15-minute slot. Gaps between two counted
+ * slots on the same weekday are filled by straight-line interpolation; slots
+ * before the first or after the last count of the day stay null (unknown).
+ * Each run bumps the file's version.
+ */
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const SLOT_MINUTES = 15;
+const SLOTS = (24 * 60) / SLOT_MINUTES;
+const OUTPUT = path.join(path.dirname(fileURLToPath(import.meta.url)), "../src/data/occupancy.json");
+
+function fail(message) {
+  console.error(`import-occupancy: ${message}`);
+  process.exit(1);
+}
+
+function parseArgs(argv) {
+  const args = { file: null, source: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--source") args.source = argv[++i];
+    else args.file = argv[i];
+  }
+  if (!args.file) fail("usage: node scripts/import-occupancy.mjs counts.csv [--source <text>]");
+  return args;
+}
+
+function parseCsv(text) {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  const col = (name) => {
+    const i = header.indexOf(name);
+    if (i < 0) fail(`missing column "${name}"`);
+    return i;
+  };
+  const idx = { lot: col("lot_id"), date: col("date"), time: col("time"), occupied: col("occupied") };
+
+  return lines.slice(1).map((line, n) => {
+    const cells = line.split(",").map((c) => c.trim());
+    const row = n + 2;
+    const date = cells[idx.date];
+    const time = cells[idx.time];
+    const occupied = Number(cells[idx.occupied]);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) fail(`row ${row}: bad date "${date}"`);
+    const m = /^(\d{1,2}):(\d{2})$/.exec(time);
+    if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) fail(`row ${row}: bad time "${time}"`);
+    if (!Number.isFinite(occupied) || occupied < 0) fail(`row ${row}: bad count "${cells[idx.occupied]}"`);
+    return {
+      lotId: cells[idx.lot],
+      day: new Date(`${date}T12:00:00Z`).getUTCDay(),
+      slot: Math.floor((Number(m[1]) * 60 + Number(m[2])) / SLOT_MINUTES),
+      occupied,
+    };
+  });
+}
+
+/** Fill nulls strictly between two known values by linear interpolation. */
+function interpolate(slots) {
+  let prev = -1;
+  for (let i = 0; i < slots.length; i++) {
+    if (slots[i] == null) continue;
+    if (prev >= 0 && i - prev > 1) {
+      for (let j = prev + 1; j < i; j++) {
+        slots[j] = slots[prev] + ((slots[i] - slots[prev]) * (j - prev)) / (i - prev);
+      }
+    }
+    prev = i;
+  }
+  return slots;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const rows = parseCsv(readFileSync(args.file, "utf8"));
+
+// lotId → day → slot → [sum, n]
+const sums = new Map();
+for (const r of rows) {
+  if (!sums.has(r.lotId)) sums.set(r.lotId, new Map());
+  const days = sums.get(r.lotId);
+  if (!days.has(r.day)) days.set(r.day, new Map());
+  const slots = days.get(r.day);
+  const [sum, n] = slots.get(r.slot) ?? [0, 0];
+  slots.set(r.slot, [sum + r.occupied, n + 1]);
+}
+
+const lots = {};
+for (const [lotId, days] of [...sums].sort(([a], [b]) => a.localeCompare(b))) {
+  lots[lotId] = {};
+  for (const [day, slots] of [...days].sort(([a], [b]) => a - b)) {
+    const averages = Array.from({ length: SLOTS }, (_, i) => {
+      const s = slots.get(i);
+      return s ? s[0] / s[1] : null;
+    });
+    lots[lotId][day] = interpolate(averages).map((v) => (v == null ? null : Math.round(v * 10) / 10));
+  }
+}
+
+const previous = existsSync(OUTPUT) ? JSON.parse(readFileSync(OUTPUT, "utf8")) : null;
+const output = {
+  version: (previous?.version ?? 0) + 1,
+  generatedAt: new Date().toISOString().slice(0, 10),
+  source: args.source ?? path.basename(args.file),
+  slotMinutes: SLOT_MINUTES,
+  lots,
+};
+
+// One weekday per line keeps diffs between versions readable
+const json = JSON.stringify(output, null, 2).replace(
+  /\[\s+([^\]]*?)\s+\]/g,
+  (_, body) => `[${body.replace(/\s+/g, " ")}]`,
+);
+writeFileSync(OUTPUT, `${json}\n`);
+console.log(
+  `Wrote ${path.relative(process.cwd(), OUTPUT)} v${output.version}: ${rows.length} counts, ${Object.keys(lots).length} lots`,
+);
@@ -0,0 +1,85 @@
+#!/usr/bin/env node
+/**
+ * Simulate gate counters posting occupancy counts to the ingestion API, so
+ * live counts can be exercised without hardware. Start the app first.
+ *
+ *   node scripts/simulate-gate-counts.mjs [--url http://localhost:3000/api/counts]
+ *     [--interval 10] [--csv] [--once] [--key <ingest key>] [--lot <id>:<capacity> ...]
+ *
+ * Each lot's count takes a random walk between empty and full. Batches go out
+ * as JSON, or as CSV with --csv. --key is sent as a bearer token and defaults
+ * to COUNT_INGEST_KEY.
+ */
+
+/** Lots with counters by default. The capacities are made up for the walk; pass --lot to use real ones. */
+const DEFAULT_LOTS = [
+  { id: "197866", capacity: 58 }, // Case-Geyer Library
+  { id: "197867", capacity: 117 }, // Andy Kerr Lot
+  { id: "197892", capacity: 103 }, // Huntington Gymnasium
+  { id: "197848", capacity: 58 }, // Academic Drive
+];
+
+function parseArgs(argv) {
+  const args = {
+    url: "http://localhost:3000/api/counts",
+    interval: 10,
+    csv: false,
+    once: false,
+    key: process.env.COUNT_INGEST_KEY ?? null,
+    lots: [],
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--url") args.url = argv[++i];
+    else if (arg === "--interval") args.interval = Number(argv[++i]);
+    else if (arg === "--csv") args.csv = true;
+    else if (arg === "--once") args.once = true;
+    else if (arg === "--key") args.key = argv[++i];
+    else if (arg === "--lot") {
+      const [id, capacity] = argv[++i].split(":");
+      args.lots.push({ id, capacity: Number(capacity) });
+    } else {
+      console.error(`simulate-gate-counts: unknown option ${arg}`);
+      process.exit(1);
+    }
+  }
+  if (args.lots.length === 0) args.lots = DEFAULT_LOTS;
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const counts = new Map(args.lots.map((lot) => [lot.id, Math.round(lot.capacity / 2)]));
+
+function step() {
+  for (const lot of args.lots) {
+    const change = Math.round((Math.random() - 0.45) * lot.capacity * 0.1);
+    counts.set(lot.id, Math.min(lot.capacity, Math.max(0, counts.get(lot.id) + change)));
+  }
+}
+
+function body(at) {
+  if (args.csv) {
+    const rows = args.lots.map((lot) => `${lot.id},${counts.get(lot.id)},${at}`);
+    return ["lot_id,occupied,timestamp", ...rows].join("\n");
+  }
+  return JSON.stringify(args.lots.map((lot) => ({ lotId: lot.id, occupied: counts.get(lot.id), at })));
+}
+
+async function send() {
+  step();
+  const at = new Date().toISOString();
+  const headers = { "Content-Type": args.csv ? "text/csv" : "application/json" };
+  if (args.key) headers.Authorization = `Bearer ${args.key}`;
+  try {
+    const res = await fetch(args.url, { method: "POST", headers, body: body(at) });
+    const result = await res.json();
+    const summary = args.lots.map((lot) => `${lot.id}=${counts.get(lot.id)}/${lot.capacity}`).join(" ");
+    console.log(`${at} ${res.status} accepted ${result.accepted ?? 0} — ${summary}`);
+    for (const e of result.errors ?? []) console.log(`  rejected #${e.index}: ${e.error}`);
+  } catch (err) {
+    console.error(`${at} could not reach ${args.url}: ${err.message}`);
+  }
+}
+
+await send();
+if (!args.once) setInterval(send, args.interval * 1000);
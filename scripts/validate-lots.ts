@@ -0,0 +1,16 @@
+/**
+ * Check src/data/lots.ts for geometry and data problems.
+ *
+ *   npm run validate:lots [-- --strict]
+ *
+ * Exits non-zero if any errors are found, or any warnings with --strict.
+ */
+import { parkingLots } from "@/data/lots";
+import { formatValidationReport, validateLots } from "@/lib/lot-validation";
+
+const strict = process.argv.includes("--strict");
+const issues = validateLots(parkingLots);
+console.log(formatValidationReport(issues, parkingLots.length));
+
+const failing = issues.filter((i) => strict || i.severity === "error");
+if (failing.length > 0) process.exit(1);
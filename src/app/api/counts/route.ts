@@ -0,0 +1,45 @@
+import { ParsedCountBatch, parseCsvCounts, parseJsonCounts } from "@/lib/live-counts";
+import { addReadings, getLiveCounts } from "@/lib/count-store";
+
+/** Counters must send `Authorization: Bearer <key>`; ingestion is off without it. */
+const INGEST_KEY = process.env.COUNT_INGEST_KEY;
+
+export async function GET() {
+  return Response.json(
+    { lots: await getLiveCounts() },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
+
+/**
+ * Ingest a batch of counts as JSON or CSV (`Content-Type: text/csv`). Valid
+ * entries are stored even when others in the batch are rejected.
+ */
+export async function POST(request: Request) {
+  if (!INGEST_KEY) {
+    return Response.json(
+      { error: "Count ingestion is not configured (COUNT_INGEST_KEY is unset)" },
+      { status: 503 },
+    );
+  }
+  if (request.headers.get("authorization") !== `Bearer ${INGEST_KEY}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let batch: ParsedCountBatch;
+  if (request.headers.get("content-type")?.startsWith("text/csv")) {
+    batch = parseCsvCounts(await request.text());
+  } else {
+    try {
+      batch = parseJsonCounts(await request.json());
+    } catch {
+      return Response.json({ error: "Body must be JSON or CSV" }, { status: 400 });
+    }
+  }
+
+  if (batch.readings.length === 0) {
+    return Response.json({ accepted: 0, errors: batch.errors }, { status: 400 });
+  }
+  await addReadings(batch.readings);
+  return Response.json({ accepted: batch.readings.length, errors: batch.errors });
+}
@@ -0,0 +1,78 @@
+import { parkingLots } from "@/data/lots";
+import { isFullnessLevel } from "@/lib/fullness";
+import { addReport, clientKey, getAllFullness } from "@/lib/fullness-store";
+
+/**
+ * Proxies in front of the app (load balancer, CDN) that each append the
+ * address they received from to X-Forwarded-For. Entries left of theirs are
+ * whatever the client sent and are never trusted.
+ */
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+
+/**
+ * Without a trusted proxy every X-Forwarded-For entry may have come from the
+ * client (Next.js only fills the header in when it's missing), so there's no
+ * address to rate-limit by. Reports are then only accepted in development,
+ * where everyone shares one limit.
+ */
+const REPORTS_ENABLED = TRUSTED_PROXY_HOPS > 0 || process.env.NODE_ENV === "development";
+
+/**
+ * The address reports are rate-limited by: the entry the outermost trusted
+ * proxy added, or null if the chain is too short to contain one.
+ */
+function clientId(request: Request): string | null {
+  if (TRUSTED_PROXY_HOPS === 0) return "local";
+  const chain = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return chain.length >= TRUSTED_PROXY_HOPS ? chain[chain.length - TRUSTED_PROXY_HOPS] : null;
+}
+
+export async function GET() {
+  return Response.json(
+    { lots: await getAllFullness() },
+    { headers: { "Cache-Control": "no-store" } },
+  );
+}
+
+export async function POST(request: Request) {
+  if (!REPORTS_ENABLED) {
+    return Response.json(
+      { error: "Fullness reports are not configured (TRUSTED_PROXY_HOPS is unset)" },
+      { status: 503 },
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+
+  const { lotId, level } = (body ?? {}) as { lotId?: unknown; level?: unknown };
+  if (typeof lotId !== "string" || !parkingLots.some((lot) => lot.id === lotId)) {
+    return Response.json({ error: "Unknown lotId" }, { status: 400 });
+  }
+  if (!isFullnessLevel(level)) {
+    return Response.json(
+      { error: 'level must be "full", "almostFull" or "plenty"' },
+      { status: 400 },
+    );
+  }
+
+  const client = clientId(request);
+  if (!client) {
+    return Response.json({ error: "Can't identify the client address" }, { status: 400 });
+  }
+  const result = await addReport(lotId, level, clientKey(client));
+  if (!result.ok) {
+    return Response.json(
+      { error: "Too many reports" },
+      { status: 429, headers: { "Retry-After": String(result.retryAfterSeconds) } },
+    );
+  }
+  return Response.json({ fullness: result.fullness }, { status: 201 });
+}
@@ -0,0 +1,26 @@
+import { parkingLots } from "@/data/lots";
+import {
+  FIXED_CACHE,
+  LIVE_CACHE,
+  errorResponse,
+  lotResource,
+  momentResource,
+  parseStatusQuery,
+} from "@/lib/lot-api";
+
+/** One lot's metadata, boundary and status. Accepts `at` and `permit`. */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const lot = parkingLots.find((l) => l.id === id);
+  if (!lot) return Response.json({ error: `No lot with id "${id}"` }, { status: 404 });
+
+  try {
+    const { at, fixed, et, permit } = parseStatusQuery(request);
+    return Response.json(
+      { ...momentResource(at, et, permit), lot: { ...lotResource(lot, et, permit), polygon: lot.polygon } },
+      { headers: { "Cache-Control": fixed ? FIXED_CACHE : LIVE_CACHE } },
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,28 @@
+import { parkingLots } from "@/data/lots";
+import { LotStatus } from "@/types";
+import { FIXED_CACHE, LIVE_CACHE, errorResponse, parseStatusQuery } from "@/lib/lot-api";
+import { getLotStatus } from "@/lib/availability";
+import { lotsToGeoJSON } from "@/lib/geojson";
+
+/**
+ * Every lot as a GeoJSON FeatureCollection with its status for `at` and
+ * `permit`. Add `?download` to save it as a file.
+ */
+export async function GET(request: Request) {
+  try {
+    const { fixed, et, permit } = parseStatusQuery(request);
+    const statuses = new Map<string, LotStatus>(
+      parkingLots.map((lot) => [lot.id, getLotStatus(lot, et, permit)]),
+    );
+    const headers: Record<string, string> = {
+      "Content-Type": "application/geo+json",
+      "Cache-Control": fixed ? FIXED_CACHE : LIVE_CACHE,
+    };
+    if (new URL(request.url).searchParams.has("download")) {
+      headers["Content-Disposition"] = 'attachment; filename="colgate-parking-lots.geojson"';
+    }
+    return new Response(JSON.stringify(lotsToGeoJSON(parkingLots, statuses)), { headers });
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
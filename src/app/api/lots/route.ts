@@ -0,0 +1,28 @@
+import { parkingLots } from "@/data/lots";
+import {
+  FIXED_CACHE,
+  LIVE_CACHE,
+  errorResponse,
+  lotResource,
+  momentResource,
+  parseStatusQuery,
+} from "@/lib/lot-api";
+
+/** Every lot's metadata and status. Accepts the same `at` and `permit` as /api/lots/status. */
+export async function GET(request: Request) {
+  try {
+    const { at, fixed, et, permit } = parseStatusQuery(request);
+    return Response.json(
+      {
+        ...momentResource(at, et, permit),
+        lots: parkingLots.map((lot) => ({
+          ...lotResource(lot, et, permit),
+          polygon: lot.polygon,
+        })),
+      },
+      { headers: { "Cache-Control": fixed ? FIXED_CACHE : LIVE_CACHE } },
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
@@ -0,0 +1,32 @@
+import { parkingLots } from "@/data/lots";
+import {
+  FIXED_CACHE,
+  LIVE_CACHE,
+  errorResponse,
+  momentResource,
+  parseStatusQuery,
+} from "@/lib/lot-api";
+import { getLotStatus } from "@/lib/availability";
+
+/**
+ * Compact statuses for signage and other tools:
+ * `GET /api/lots/status?at=<ISO time>&permit=<type>`, both optional.
+ */
+export async function GET(request: Request) {
+  try {
+    const { at, fixed, et, permit } = parseStatusQuery(request);
+    return Response.json(
+      {
+        ...momentResource(at, et, permit),
+        lots: parkingLots.map((lot) => ({
+          id: lot.id,
+          name: lot.name,
+          ...getLotStatus(lot, et, permit),
+        })),
+      },
+      { headers: { "Cache-Control": fixed ? FIXED_CACHE : LIVE_CACHE } },
+    );
+  } catch (err) {
+    return errorResponse(err);
+  }
+}
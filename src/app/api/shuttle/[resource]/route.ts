@@ -0,0 +1,37 @@
+import {
+  ShuttleConfigError,
+  UpstreamError,
+  getShuttleResource,
+  isShuttleResource,
+  secondsFresh,
+} from "@/lib/shuttle-proxy";
+
+/**
+ * Peak Transit data for the shuttle tracker: `vehicles`, `routes`, `stops` or
+ * `shapes`. Served from a shared server-side cache.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ resource: string }> }) {
+  const { resource } = await params;
+  if (!isShuttleResource(resource)) {
+    return Response.json({ error: `No shuttle resource "${resource}"` }, { status: 404 });
+  }
+
+  try {
+    const result = await getShuttleResource(resource);
+    return Response.json(result.data, {
+      headers: {
+        "Cache-Control": `public, max-age=${secondsFresh(resource, result)}`,
+        "Last-Modified": new Date(result.fetchedAt).toUTCString(),
+        "X-Cache": result.cache.toUpperCase(),
+      },
+    });
+  } catch (err) {
+    if (err instanceof ShuttleConfigError) {
+      return Response.json({ error: err.message }, { status: 503 });
+    }
+    if (err instanceof UpstreamError) {
+      return Response.json({ error: err.message }, { status: 502 });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import { useMemo } from "react";
+import { Marker, Popup } from "react-leaflet";
+import L from "leaflet";
+import { ParkingLot } from "@/types";
+
+/** International Symbol of Access blue. */
+const ACCESSIBLE_BLUE = "#1d4ed8";
+
+/** Build a square wheelchair badge with the stall count, if known, beside it. */
+function buildAccessibleIcon(count: number | undefined, dark: boolean): L.DivIcon {
+  const size = 18;
+  const border = dark ? "#2a2a3d" : "#fff";
+  const html = `<div style="display:flex;align-items:center;gap:2px;">
+    <div style="width:${size}px;height:${size}px;border-radius:3px;background:${ACCESSIBLE_BLUE};border:1.5px solid ${border};color:#fff;font-size:12px;line-height:${size}px;text-align:center;">♿</div>
+    ${count != null && count > 1 ? `<span style="font-size:10px;font-weight:700;color:${ACCESSIBLE_BLUE};background:${border};border-radius:3px;padding:0 2px;">${count}</span>` : ""}
+  </div>`;
+
+  return L.divIcon({
+    html,
+    className: "",
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+interface Props {
+  /** Lots currently shown on the map; only their stalls are drawn. */
+  lots: ParkingLot[];
+  dark: boolean;
+}
+
+/** Markers for the accessible stalls inside each visible lot. */
+export default function AccessibleSpaceLayer({ lots, dark }: Props) {
+  const spaces = useMemo(
+    () =>
+      lots.flatMap((lot) =>
+        (lot.accessibleSpaces ?? []).map((space, i) => ({ lot, space, key: `${lot.id}-${i}` })),
+      ),
+    [lots],
+  );
+
+  return (
+    <>
+      {spaces.map(({ lot, space, key }) => (
+        <Marker
+          key={key}
+          position={[space.lat, space.lng]}
+          icon={buildAccessibleIcon(space.count, dark)}
+        >
+          <Popup>
+            <div style={{ fontWeight: 600, fontSize: 13 }}>
+              {space.count == null
+                ? "Accessible spaces"
+                : `${space.count} accessible ${space.count === 1 ? "space" : "spaces"}`}
+            </div>
+            <div style={{ fontSize: 11, color: "#666", marginTop: 2 }}>{lot.name}</div>
+            {space.note && (
+              <div style={{ fontSize: 11, color: "#999", marginTop: 2 }}>{space.note}</div>
+            )}
+            <div style={{ fontSize: 11, color: "#999", marginTop: 2 }}>
+              Accessible placard required
+            </div>
+          </Popup>
+        </Marker>
+      ))}
+    </>
+  );
+}
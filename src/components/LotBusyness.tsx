@@ -0,0 +1,72 @@
+"use client";
+
+import { useMemo } from "react";
+import { ParkingLot } from "@/types";
+import { EasternTime } from "@/lib/time-utils";
+import { OCCUPANCY_SLOT_MINUTES, getTypicalOccupancy } from "@/lib/occupancy";
+
+const DAY_NAMES = ["Sundays", "Mondays", "Tuesdays", "Wednesdays", "Thursdays", "Fridays", "Saturdays"];
+const FIRST_HOUR = 6;
+const LAST_HOUR = 23;
+const CHART_HEIGHT = 36;
+
+interface Props {
+  lot: ParkingLot;
+  easternTime: EasternTime;
+}
+
+function hourLabel(hour: number): string {
+  if (hour % 24 === 0) return "12a";
+  if (hour === 12) return "12p";
+  return hour < 12 ? `${hour}a` : `${hour - 12}p`;
+}
+
+/** Hourly bars of how full a lot typically is on this weekday, now highlighted. */
+export default function LotBusyness({ lot, easternTime }: Props) {
+  const hours = useMemo(() => {
+    const slots = getTypicalOccupancy(lot, easternTime.dayOfWeek);
+    if (!slots) return null;
+    const perHour = 60 / OCCUPANCY_SLOT_MINUTES;
+    const result: { hour: number; value: number | null }[] = [];
+    for (let hour = FIRST_HOUR; hour <= LAST_HOUR; hour++) {
+      const known = slots
+        .slice(hour * perHour, (hour + 1) * perHour)
+        .filter((v): v is number => v != null);
+      result.push({
+        hour,
+        value: known.length ? known.reduce((a, b) => a + b, 0) / known.length : null,
+      });
+    }
+    return result;
+  }, [lot, easternTime.dayOfWeek]);
+
+  if (!hours || hours.every((h) => h.value == null)) return null;
+  const currentHour = Math.floor(easternTime.minutesSinceMidnight / 60);
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      <div style={{ fontSize: 11, color: "#666", marginBottom: 3 }}>
+        Typical busyness — {DAY_NAMES[easternTime.dayOfWeek]}
+      </div>
+      <div style={{ display: "flex", alignItems: "flex-end", gap: 1, height: CHART_HEIGHT }}>
+        {hours.map(({ hour, value }) => (
+          <div
+            key={hour}
+            title={value == null ? "No data" : `${hourLabel(hour)}: ${Math.round(value * 100)}% full`}
+            style={{
+              flex: 1,
+              height: value == null ? 1 : Math.max(2, value * CHART_HEIGHT),
+              background: hour === currentHour ? "#3b6ec9" : value != null && value >= 0.9 ? "#dc2626" : "#9ca3af",
+              borderRadius: "2px 2px 0 0",
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 9, color: "#999" }}>
+        {[FIRST_HOUR, 12, 18, LAST_HOUR + 1].map((h) => (
+          <span key={h}>{hourLabel(h)}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
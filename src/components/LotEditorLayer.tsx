@@ -0,0 +1,130 @@
+"use client";
+
+import { useMemo } from "react";
+import { Marker, Polygon, Polyline, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import { PermitType } from "@/types";
+import { parkingLots } from "@/data/lots";
+import { EasternTime } from "@/lib/time-utils";
+import { getLotStatus } from "@/lib/availability";
+import { LotDraft, lotFromDraft } from "@/lib/lot-editor";
+import LotMarker from "./LotMarker";
+
+const vertexIcon = L.divIcon({
+  html: '<div style="width:10px;height:10px;background:#fff;border:2px solid #3b6ec9;border-radius:2px;"></div>',
+  className: "",
+  iconSize: [10, 10],
+  iconAnchor: [5, 5],
+});
+
+const midpointIcon = L.divIcon({
+  html: '<div style="width:8px;height:8px;background:#3b6ec9;opacity:0.5;border-radius:50%;"></div>',
+  className: "",
+  iconSize: [8, 8],
+  iconAnchor: [4, 4],
+});
+
+interface Props {
+  draft: LotDraft;
+  onChange: (vertices: [number, number][]) => void;
+  /** While drawing, clicking the map appends a vertex. */
+  drawing: boolean;
+  easternTime: EasternTime;
+  permit: PermitType;
+  now: number;
+  dark: boolean;
+}
+
+/**
+ * Map side of the boundary editor: the draft previewed exactly as a lot
+ * renders in production, with draggable vertices. Drag a vertex to move it,
+ * right-click it to delete it, or click a midpoint to insert one.
+ */
+export default function LotEditorLayer({
+  draft,
+  onChange,
+  drawing,
+  easternTime,
+  permit,
+  now,
+  dark,
+}: Props) {
+  const { vertices } = draft;
+
+  useMapEvents({
+    click(e) {
+      if (drawing) onChange([...vertices, [e.latlng.lat, e.latlng.lng]]);
+    },
+  });
+
+  const preview = useMemo(() => lotFromDraft(draft), [draft]);
+  const others = useMemo(
+    () => parkingLots.filter((lot) => lot.id !== draft.sourceId),
+    [draft.sourceId],
+  );
+
+  const move = (i: number, latlng: L.LatLng) =>
+    onChange(vertices.map((v, j) => (j === i ? [latlng.lat, latlng.lng] : v)));
+
+  return (
+    <>
+      {/* Other lots, for context only */}
+      {others.map((lot) => (
+        <Polygon
+          key={lot.id}
+          positions={lot.polygon}
+          interactive={false}
+          pathOptions={{ color: dark ? "#9999bb" : "#888", weight: 1, fillOpacity: 0.08, dashArray: "3 3" }}
+        />
+      ))}
+
+      {preview ? (
+        <LotMarker
+          lot={preview}
+          status={getLotStatus(preview, easternTime, permit)}
+          easternTime={easternTime}
+          permit={permit}
+          now={now}
+          dark={dark}
+        />
+      ) : (
+        vertices.length === 2 && (
+          <Polyline positions={vertices} pathOptions={{ color: "#3b6ec9", weight: 2 }} />
+        )
+      )}
+
+      {vertices.map((v, i) => {
+        const next = vertices[(i + 1) % vertices.length];
+        if (vertices.length < 3 && i === vertices.length - 1) return null;
+        return (
+          <Marker
+            key={`mid-${i}`}
+            position={[(v[0] + next[0]) / 2, (v[1] + next[1]) / 2]}
+            icon={midpointIcon}
+            eventHandlers={{
+              click: () =>
+                onChange([
+                  ...vertices.slice(0, i + 1),
+                  [(v[0] + next[0]) / 2, (v[1] + next[1]) / 2],
+                  ...vertices.slice(i + 1),
+                ]),
+            }}
+          />
+        );
+      })}
+
+      {vertices.map((v, i) => (
+        <Marker
+          key={`vertex-${i}`}
+          position={v}
+          icon={vertexIcon}
+          draggable
+          eventHandlers={{
+            drag: (e) => move(i, (e.target as L.Marker).getLatLng()),
+            contextmenu: () => onChange(vertices.filter((_, j) => j !== i)),
+          }}
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { LotCategory } from "@/types";
+import { parkingLots } from "@/data/lots";
+import {
+  DraftExportFormat,
+  EMPTY_DRAFT,
+  LotDraft,
+  checkDraft,
+  draftFromLot,
+  exportDraft,
+  lotFromDraft,
+} from "@/lib/lot-editor";
+
+const categoryOptions: { value: LotCategory; label: string }[] = [
+  { value: "student", label: "Student" },
+  { value: "employee", label: "Employee" },
+  { value: "visitor", label: "Visitor" },
+  { value: "restricted", label: "Restricted (accessible only)" },
+];
+
+const exportOptions: { value: DraftExportFormat; label: string }[] = [
+  { value: "entry", label: "lots.ts entry" },
+  { value: "geojson", label: "GeoJSON" },
+];
+
+const severityColors = { error: "#dc2626", warning: "#ca8a04" };
+
+interface Props {
+  draft: LotDraft;
+  onDraftChange: (draft: LotDraft) => void;
+  drawing: boolean;
+  onToggleDrawing: () => void;
+  onExit: () => void;
+  dark: boolean;
+}
+
+/**
+ * Sidebar for the boundary editor: pick a lot (or start a new one), edit its
+ * details, check it against the validator and copy out the result.
+ */
+export default function LotEditorPanel({
+  draft,
+  onDraftChange,
+  drawing,
+  onToggleDrawing,
+  onExit,
+  dark,
+}: Props) {
+  const [format, setFormat] = useState<DraftExportFormat>("entry");
+  const [copied, setCopied] = useState(false);
+
+  const lot = useMemo(() => lotFromDraft(draft), [draft]);
+  const issues = useMemo(() => checkDraft(draft), [draft]);
+  const output = lot ? exportDraft(lot, format) : "";
+  const sortedLots = useMemo(
+    () => [...parkingLots].sort((a, b) => a.name.localeCompare(b.name)),
+    [],
+  );
+
+  const update = (changes: Partial<LotDraft>) => {
+    setCopied(false);
+    onDraftChange({ ...draft, ...changes });
+  };
+
+  const startFrom = (id: string) => {
+    setCopied(false);
+    const source = parkingLots.find((l) => l.id === id);
+    onDraftChange(source ? draftFromLot(source) : EMPTY_DRAFT);
+  };
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const d = dark;
+  const bg = d ? "#2a2a3d" : "#ffffff";
+  const bgAlt = d ? "#353550" : "#f5f5f5";
+  const text = d ? "#eaeaea" : "#1a1a1a";
+  const textMuted = d ? "#9999bb" : "#666";
+  const border = d ? "#3d3d55" : "#e5e5e5";
+
+  const fieldStyle = {
+    width: "100%",
+    padding: "6px 8px",
+    fontSize: 12,
+    border: `1px solid ${border}`,
+    borderRadius: 6,
+    background: bgAlt,
+    color: text,
+    outline: "none",
+    boxSizing: "border-box" as const,
+  };
+  const labelStyle = {
+    display: "block",
+    marginBottom: 8,
+    fontSize: 11,
+    color: textMuted,
+  };
+
+  return (
+    <div
+      style={{
+        background: bg,
+        borderRight: `1px solid ${border}`,
+        width: 320,
+        display: "flex",
+        flexDirection: "column",
+        height: "100%",
+      }}
+    >
+      {/* Header */}
+      <div style={{ padding: "14px 14px 12px", borderBottom: `1px solid ${border}` }}>
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 10 }}>
+          <span style={{ fontSize: 14, fontWeight: 600, color: text }}>Lot editor</span>
+          <button
+            onClick={onExit}
+            style={{
+              background: d ? "#353550" : "#f0f0f0",
+              border: `1px solid ${border}`,
+              borderRadius: 20,
+              padding: "5px 12px",
+              cursor: "pointer",
+              fontSize: 12,
+              fontWeight: 500,
+              color: text,
+            }}
+          >
+            Exit
+          </button>
+        </div>
+
+        <label style={labelStyle}>
+          Start from
+          <select
+            value={draft.sourceId ?? ""}
+            onChange={(e) => startFrom(e.target.value)}
+            style={{ ...fieldStyle, marginTop: 3 }}
+          >
+            <option value="">New lot</option>
+            {sortedLots.map((l) => (
+              <option key={l.id} value={l.id}>
+                {l.name}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={onToggleDrawing}
+          style={{
+            width: "100%",
+            padding: "8px 0",
+            borderRadius: 6,
+            border: "none",
+            background: drawing ? "#3b82f6" : (d ? "#353550" : "#f0f0f0"),
+            color: drawing ? "#fff" : text,
+            fontSize: 12,
+            fontWeight: 600,
+            cursor: "pointer",
+          }}
+        >
+          {drawing ? "Drawing — click the map to add vertices" : "Add vertices"}
+        </button>
+        <div style={{ fontSize: 11, color: textMuted, marginTop: 6, lineHeight: 1.4 }}>
+          Drag a vertex to move it, right-click to delete it, or click a
+          midpoint to insert one. {draft.vertices.length} vertices.
+        </div>
+      </div>
+
+      <div style={{ flex: 1, overflowY: "auto", padding: "12px 14px" }}>
+        {/* Details */}
+        <label style={labelStyle}>
+          ID
+          <input
+            type="text"
+            value={draft.id}
+            onChange={(e) => update({ id: e.target.value })}
+            style={{ ...fieldStyle, marginTop: 3 }}
+          />
+        </label>
+        <label style={labelStyle}>
+          Name
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            style={{ ...fieldStyle, marginTop: 3 }}
+          />
+        </label>
+        <label style={labelStyle}>
+          Category
+          <select
+            value={draft.category}
+            onChange={(e) => update({ category: e.target.value as LotCategory })}
+            style={{ ...fieldStyle, marginTop: 3 }}
+          >
+            {categoryOptions.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Capacity (leave blank until counted)
+          <input
+            type="number"
+            min={1}
+            value={draft.capacity ?? ""}
+            onChange={(e) => update({ capacity: e.target.value === "" ? null : Number(e.target.value) })}
+            style={{ ...fieldStyle, marginTop: 3 }}
+          />
+        </label>
+        <label style={{ ...labelStyle, display: "flex", alignItems: "center", gap: 6, color: text }}>
+          <input
+            type="checkbox"
+            checked={draft.overnightExempt}
+            onChange={(e) => update({ overnightExempt: e.target.checked })}
+          />
+          Overnight exempt
+        </label>
+
+        {/* Validation */}
+        <div style={{ fontSize: 11, fontWeight: 600, color: textMuted, margin: "12px 0 6px" }}>
+          {issues.length === 0 ? "No problems found" : `${issues.length} problem${issues.length === 1 ? "" : "s"}`}
+        </div>
+        {issues.map((issue, i) => (
+          <div
+            key={i}
+            style={{
+              fontSize: 11,
+              lineHeight: 1.4,
+              color: text,
+              paddingLeft: 8,
+              borderLeft: `3px solid ${severityColors[issue.severity]}`,
+              marginBottom: 4,
+            }}
+          >
+            {issue.message}
+          </div>
+        ))}
+
+        {/* Export */}
+        <div style={{ display: "flex", gap: 4, margin: "14px 0 6px" }}>
+          {exportOptions.map((o) => {
+            const active = format === o.value;
+            return (
+              <button
+                key={o.value}
+                onClick={() => {
+                  setFormat(o.value);
+                  setCopied(false);
+                }}
+                style={{
+                  fontSize: 11,
+                  padding: "3px 8px",
+                  borderRadius: 4,
+                  border: active ? "none" : `1px solid ${border}`,
+                  background: active ? "#3b82f6" : "transparent",
+                  color: active ? "#fff" : textMuted,
+                  cursor: "pointer",
+                }}
+              >
+                {o.label}
+              </button>
+            );
+          })}
+          <button
+            onClick={copy}
+            disabled={!output}
+            style={{
+              marginLeft: "auto",
+              fontSize: 11,
+              padding: "3px 8px",
+              borderRadius: 4,
+              border: `1px solid ${border}`,
+              background: "transparent",
+              color: text,
+              cursor: output ? "pointer" : "default",
+            }}
+          >
+            {copied ? "Copied" : "Copy"}
+          </button>
+        </div>
+        <textarea
+          readOnly
+          value={output}
+          placeholder="Draw at least three vertices to export"
+          rows={12}
+          style={{
+            ...fieldStyle,
+            fontFamily: "monospace",
+            fontSize: 10,
+            resize: "vertical",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,59 @@
 "use client";
 
-import { ParkingLot, LotStatus, StatusColor } from "@/types";
+import { useState } from "react";
+import {
+  FullnessLevel,
+  LiveCount,
+  LotFullness,
+  ParkingLot,
+  LotStatus,
+  PermitType,
+  StatusColor,
+} from "@/types";
+import { PERMIT_OPTIONS } from "@/data/permits";
+import { CampusBuilding } from "@/data/buildings";
+import { parkingLots } from "@/data/lots";
+import { accessibleSpaceCount, hasAccessibleSpaces } from "@/lib/capacity";
+import { formatFullness } from "@/lib/fullness";
+import { formatLiveCount } from "@/lib/live-counts";
+import { RECOMMENDED_PURPLE, formatWalk, searchBuildings } from "@/lib/destinations";
 
 const colorMap: Record<string, string> = {
   green: "#16a34a",
   yellow: "#ca8a04",
   orange: "#ea580c",
   red: "#dc2626",
+  gray: "#6b7280",
 };
 
 const statusFilterOptions: { color: StatusColor; label: string }[] = [
   { color: "yellow", label: "Opening soon" },
   { color: "orange", label: "Closing soon" },
+  { color: "gray", label: "Temporarily closed" },
+];
+
+const fullnessColors: Record<FullnessLevel, string> = {
+  full: "#7f1d1d",
+  almostFull: "#b45309",
+  plenty: "#0f766e",
+};
+
+export type LotSortKey = "status" | "capacity";
+
+// Sorting by size only makes sense once some lots have been counted
+const sortOptions: { value: LotSortKey; label: string }[] = [
+  { value: "status", label: "Status" },
+  ...(parkingLots.some((lot) => lot.capacity != null)
+    ? [{ value: "capacity" as const, label: "Size" }]
+    : []),
 ];
 
 const categoryFilterOptions: { value: string; label: string }[] = [
   { value: "student", label: "Student" },
   { value: "employee", label: "Employee" },
   { value: "overnightExempt", label: "Overnight OK" },
+  { value: "visitor", label: "Visitor spaces" },
+  { value: "accessible", label: "Accessible spaces" },
 ];
 
 function formatDist(km: number): string {
@@ -28,6 +64,15 @@ function formatDist(km: number): string {
 interface Props {
   lots: ParkingLot[];
   statuses: Map<string, LotStatus>;
+  stayLabels: Map<string, string | null>;
+  /** Warnings from historical occupancy, e.g. "Usually full by 9:30 AM". */
+  fullnessHints: Map<string, string | null>;
+  /** Crowd-sourced fullness by lot ID; omitted while planning ahead. */
+  fullness?: Record<string, LotFullness>;
+  /** Live gate/sensor counts by lot ID; omitted while planning ahead. */
+  liveCounts?: Record<string, LiveCount>;
+  /** Epoch milliseconds, for the age of the fullness reports. */
+  now: number;
   selectedLotId: string | null;
   dark: boolean;
   search: string;
@@ -38,17 +83,33 @@ interface Props {
   onToggleCategory: (value: string) => void;
   onLotClick?: (lot: ParkingLot) => void;
   onToggleDark: () => void;
+  permit: PermitType;
+  onPermitChange: (permit: PermitType) => void;
   nearMeActive: boolean;
   locatingUser: boolean;
   onNearMe: () => void;
   lotDistances: Map<string, number>;
+  /** Where the viewer is headed; the list is then ranked by walk from there. */
+  destination: CampusBuilding | null;
+  onDestinationChange: (building: CampusBuilding | null) => void;
+  /** Estimated walk to the destination by lot ID, in km. */
+  walkDistances: Map<string, number>;
+  /** IDs of the highlighted top choices for the destination, best first. */
+  topChoiceIds: string[];
   skipSort?: boolean;
+  sortKey: LotSortKey;
+  onSortChange: (key: LotSortKey) => void;
   onShowShuttles: () => void;
 }
 
 export default function LotListPanel({
   lots,
   statuses,
+  stayLabels,
+  fullnessHints,
+  fullness,
+  liveCounts,
+  now,
   selectedLotId,
   dark,
   search,
@@ -59,20 +120,34 @@ export default function LotListPanel({
   onToggleCategory,
   onLotClick,
   onToggleDark,
+  permit,
+  onPermitChange,
   nearMeActive,
   locatingUser,
   onNearMe,
   lotDistances,
+  destination,
+  onDestinationChange,
+  walkDistances,
+  topChoiceIds,
   skipSort,
+  sortKey,
+  onSortChange,
   onShowShuttles,
 }: Props) {
-  const order: StatusColor[] = ["green", "yellow", "orange", "red"];
+  const [destinationQuery, setDestinationQuery] = useState("");
+  const destinationMatches = destination ? [] : searchBuildings(destinationQuery);
+
+  const order: StatusColor[] = ["green", "yellow", "orange", "red", "gray"];
   const sorted = skipSort
     ? lots
     : [...lots].sort((a, b) => {
         const sa = statuses.get(a.id)!;
         const sb = statuses.get(b.id)!;
-        return order.indexOf(sa.color) - order.indexOf(sb.color);
+        const byStatus = order.indexOf(sa.color) - order.indexOf(sb.color);
+        // Lots of unknown size go last
+        const bySize = (b.capacity ?? -1) - (a.capacity ?? -1);
+        return sortKey === "capacity" ? bySize || byStatus : byStatus;
       });
 
   const d = dark;
@@ -123,6 +198,167 @@ export default function LotListPanel({
           </button>
         </div>
 
+        {/* Permit selector — statuses are shown from this viewer's perspective */}
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            marginBottom: 10,
+            fontSize: 12,
+            color: textMuted,
+          }}
+        >
+          I park as
+          <select
+            value={permit}
+            onChange={(e) => onPermitChange(e.target.value as PermitType)}
+            style={{
+              flex: 1,
+              padding: "5px 8px",
+              fontSize: 12,
+              border: `1px solid ${border}`,
+              borderRadius: 6,
+              background: bgAlt,
+              color: text,
+              outline: "none",
+            }}
+          >
+            {PERMIT_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {/* Visitor mode — explain when a pass is needed and offer the visitor filter */}
+        {permit === "visitor" && (
+          <div
+            style={{
+              marginBottom: 10,
+              padding: "8px 10px",
+              borderRadius: 6,
+              background: d ? "#3d3d6a" : "#e8f0fe",
+              fontSize: 11,
+              lineHeight: 1.4,
+              color: text,
+            }}
+          >
+            Visitors may park in any open lot without a pass on weekday evenings
+            after 4:30 PM and on weekends (except 3–7 AM). During business hours,
+            use visitor spaces — a daily visitor pass is required unless noted.
+            <button
+              onClick={() => onToggleCategory("visitor")}
+              style={{
+                display: "block",
+                marginTop: 6,
+                padding: 0,
+                background: "none",
+                border: "none",
+                color: d ? "#8ba4d9" : "#3b6ec9",
+                fontSize: 11,
+                fontWeight: 600,
+                cursor: "pointer",
+              }}
+            >
+              {categoryFilters.has("visitor") ? "Show all lots" : "Show lots with visitor spaces"}
+            </button>
+          </div>
+        )}
+
+        {/* Destination — rank lots by the walk to a building */}
+        {destination ? (
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 6,
+              marginBottom: 10,
+              padding: "6px 10px",
+              borderRadius: 6,
+              background: d ? "#3d3d6a" : "#f3eefe",
+              fontSize: 12,
+              color: text,
+            }}
+          >
+            <span style={{ fontSize: 14 }}>{"\uD83C\uDFDB\uFE0F"}</span>
+            <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+              Going to <strong>{destination.name}</strong>
+            </span>
+            <button
+              onClick={() => onDestinationChange(null)}
+              aria-label="Clear destination"
+              style={{
+                background: "none",
+                border: "none",
+                padding: 0,
+                fontSize: 14,
+                lineHeight: 1,
+                color: textMuted,
+                cursor: "pointer",
+              }}
+            >
+              {"\u00d7"}
+            </button>
+          </div>
+        ) : (
+          <div style={{ position: "relative", marginBottom: 10 }}>
+            <input
+              type="text"
+              placeholder="Where are you going?"
+              value={destinationQuery}
+              onChange={(e) => setDestinationQuery(e.target.value)}
+              style={{
+                width: "100%",
+                padding: "7px 10px",
+                fontSize: 12,
+                border: `1px solid ${border}`,
+                borderRadius: 6,
+                background: bgAlt,
+                color: text,
+                outline: "none",
+                boxSizing: "border-box",
+              }}
+            />
+            {destinationMatches.length > 0 && (
+              <div
+                style={{
+                  position: "absolute",
+                  top: "100%",
+                  left: 0,
+                  right: 0,
+                  marginTop: 2,
+                  background: bg,
+                  border: `1px solid ${border}`,
+                  borderRadius: 6,
+                  boxShadow: "0 4px 12px rgba(0,0,0,0.15)",
+                  zIndex: 10,
+                  overflow: "hidden",
+                }}
+              >
+                {destinationMatches.map((b) => (
+                  <div
+                    key={b.id}
+                    onClick={() => {
+                      setDestinationQuery("");
+                      onDestinationChange(b);
+                    }}
+                    style={{ padding: "6px 10px", fontSize: 12, color: text, cursor: "pointer" }}
+                    onMouseEnter={(e) => (e.currentTarget.style.background = hoverBg)}
+                    onMouseLeave={(e) => (e.currentTarget.style.background = "transparent")}
+                  >
+                    {b.name}
+                    {b.aliases.length > 0 && (
+                      <span style={{ fontSize: 10, color: textMuted }}>{` \u00b7 ${b.aliases.join(", ")}`}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Action buttons row */}
         <div style={{ display: "flex", gap: 6, marginBottom: 10 }}>
           {/* Near Me button */}
@@ -240,10 +476,48 @@ export default function LotListPanel({
           })}
         </div>
 
-        {/* Count */}
-        <div style={{ fontSize: 11, color: textMuted, marginTop: 8 }}>
-          {sorted.length} lot{sorted.length !== 1 ? "s" : ""}
-          {nearMeActive ? " available nearby" : ""}
+        {/* Count and sort */}
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            fontSize: 11,
+            color: textMuted,
+            marginTop: 8,
+          }}
+        >
+          <span>
+            {sorted.length} lot{sorted.length !== 1 ? "s" : ""}
+            {destination
+              ? ` available near ${destination.name}`
+              : nearMeActive
+                ? " available nearby"
+                : ""}
+          </span>
+          {!skipSort && (
+            <label style={{ display: "flex", alignItems: "center", gap: 4 }}>
+              Sort
+              <select
+                value={sortKey}
+                onChange={(e) => onSortChange(e.target.value as LotSortKey)}
+                style={{
+                  fontSize: 11,
+                  padding: "1px 4px",
+                  border: `1px solid ${border}`,
+                  borderRadius: 4,
+                  background: bgAlt,
+                  color: text,
+                }}
+              >
+                {sortOptions.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
         </div>
       </div>
 
@@ -253,6 +527,12 @@ export default function LotListPanel({
           const status = statuses.get(lot.id)!;
           const isSelected = lot.id === selectedLotId;
           const dist = lotDistances.get(lot.id);
+          const stayLabel = stayLabels.get(lot.id);
+          const reported = fullness?.[lot.id];
+          const hint = fullnessHints.get(lot.id);
+          const liveCount = liveCounts?.[lot.id];
+          const walk = destination ? walkDistances.get(lot.id) : undefined;
+          const rank = topChoiceIds.indexOf(lot.id) + 1;
           return (
             <div
               key={lot.id}
@@ -295,17 +575,79 @@ export default function LotListPanel({
                       textOverflow: "ellipsis",
                     }}
                   >
+                    {rank > 0 && (
+                      <span
+                        style={{
+                          display: "inline-block",
+                          minWidth: 14,
+                          marginRight: 4,
+                          borderRadius: 7,
+                          background: RECOMMENDED_PURPLE,
+                          color: "#fff",
+                          fontSize: 10,
+                          fontWeight: 700,
+                          textAlign: "center",
+                        }}
+                      >
+                        {rank}
+                      </span>
+                    )}
                     {lot.name}
                   </div>
-                  {nearMeActive && dist != null && (
-                    <span style={{ fontSize: 10, color: textMuted, whiteSpace: "nowrap", flexShrink: 0 }}>
-                      {formatDist(dist)}
-                    </span>
-                  )}
+                  <span style={{ fontSize: 10, color: textMuted, whiteSpace: "nowrap", flexShrink: 0 }}>
+                    {walk != null && status.color === "yellow" && "Opens soon \u00b7 "}
+                    {walk != null && `${formatWalk(walk)} \u00b7 `}
+                    {!destination && nearMeActive && dist != null && `${formatDist(dist)} \u00b7 `}
+                    {liveCount
+                      ? formatLiveCount(liveCount)
+                      : lot.capacity != null && `${lot.capacity} spaces`}
+                  </span>
                 </div>
                 <div style={{ fontSize: 11, color: textMuted, marginTop: 1 }}>
                   {status.reason}
                 </div>
+                {reported && (
+                  <span
+                    style={{
+                      display: "inline-block",
+                      marginTop: 2,
+                      padding: "0 5px",
+                      borderRadius: 3,
+                      fontSize: 10,
+                      fontWeight: 600,
+                      color: "#fff",
+                      background: fullnessColors[reported.level],
+                    }}
+                  >
+                    {formatFullness(reported, now)}
+                  </span>
+                )}
+                {permit === "visitor" && lot.visitorSpaces && (
+                  <div style={{ fontSize: 10, color: textMuted, marginTop: 1 }}>
+                    {lot.visitorSpaces.count != null
+                      ? `${lot.visitorSpaces.count} visitor spaces`
+                      : "Visitor spaces"}
+                    {lot.visitorSpaces.passRequired ? " \u00b7 pass required" : " \u00b7 no pass needed"}
+                  </div>
+                )}
+                {permit === "accessible" && hasAccessibleSpaces(lot) && (
+                  <div style={{ fontSize: 10, color: textMuted, marginTop: 1 }}>
+                    {"\u267F"}{" "}
+                    {accessibleSpaceCount(lot) != null
+                      ? `${accessibleSpaceCount(lot)} accessible spaces`
+                      : "Accessible spaces"}
+                  </div>
+                )}
+                {hint && (
+                  <div style={{ fontSize: 10, color: d ? "#fbbf24" : "#b45309", marginTop: 1 }}>
+                    {hint}
+                  </div>
+                )}
+                {stayLabel && (
+                  <div style={{ fontSize: 10, color: d ? "#6bda6b" : "#2e7d32", marginTop: 1 }}>
+                    {stayLabel}
+                  </div>
+                )}
               </div>
             </div>
           );
@@ -1,7 +1,28 @@
 "use client";
 
-import { Polygon, Popup } from "react-leaflet";
-import { ParkingLot, LotStatus } from "@/types";
+import { useEffect, useRef, useState } from "react";
+import { Polygon, Popup, Tooltip } from "react-leaflet";
+import L from "leaflet";
+import {
+  FullnessLevel,
+  LiveCount,
+  LotFullness,
+  ParkingLot,
+  LotStatus,
+  PermitType,
+} from "@/types";
+import { EasternTime } from "@/lib/time-utils";
+import { getSpaceBreakdown, formatSpaceBreakdown } from "@/lib/capacity";
+import {
+  FULLNESS_LABELS,
+  FULLNESS_LEVELS,
+  FullnessRateLimitError,
+  formatFullness,
+} from "@/lib/fullness";
+import { formatLiveCount } from "@/lib/live-counts";
+import { RECOMMENDED_PURPLE } from "@/lib/destinations";
+import LotTimeline from "./LotTimeline";
+import LotBusyness from "./LotBusyness";
 
 // Brighter colors for dark map, standard for light
 const lightColors: Record<string, string> = {
@@ -9,6 +30,7 @@ const lightColors: Record<string, string> = {
   yellow: "#ca8a04",
   orange: "#ea580c",
   red: "#dc2626",
+  gray: "#6b7280",
 };
 
 const darkColors: Record<string, string> = {
@@ -16,32 +38,92 @@ const darkColors: Record<string, string> = {
   yellow: "#facc15",
   orange: "#fb923c",
   red: "#f87171",
+  gray: "#9ca3af",
+};
+
+const fullnessColors: Record<FullnessLevel, string> = {
+  full: "#7f1d1d",
+  almostFull: "#b45309",
+  plenty: "#0f766e",
 };
 
 interface Props {
   lot: ParkingLot;
   status: LotStatus;
+  /** How long a car arriving now may stay, e.g. "OK until Mon 3:00 AM (14h 20m)". */
+  stayLabel?: string | null;
+  easternTime: EasternTime;
+  permit: PermitType;
+  /** Crowd-sourced fullness, if anyone has reported recently. */
+  fullness?: LotFullness;
+  /** Latest gate or sensor count, for lots that have one. */
+  liveCount?: LiveCount;
+  /** Epoch milliseconds, for the age of the fullness reports. */
+  now: number;
+  /** Omitted when reporting doesn't make sense, e.g. while planning ahead. */
+  onReportFullness?: (lotId: string, level: FullnessLevel) => Promise<void>;
   selected?: boolean;
+  /** Position among the top choices for the viewer's destination, if it is one. */
+  rank?: number;
+  /** Open the popup as soon as this becomes true, e.g. for a shared link to the lot. */
+  openPopup?: boolean;
+  onPopupOpen?: (lotId: string) => void;
+  onPopupClose?: (lotId: string) => void;
   dark?: boolean;
 }
 
-export default function LotMarker({ lot, status, selected, dark }: Props) {
+export default function LotMarker({
+  lot,
+  status,
+  stayLabel,
+  easternTime,
+  permit,
+  fullness,
+  liveCount,
+  now,
+  onReportFullness,
+  selected,
+  rank,
+  openPopup,
+  onPopupOpen,
+  onPopupClose,
+  dark,
+}: Props) {
+  const [showWeek, setShowWeek] = useState(false);
+  const [reportState, setReportState] = useState<"idle" | "sending" | "sent">("idle");
+  const [reportError, setReportError] = useState<string | null>(null);
   const colors = dark ? darkColors : lightColors;
   const c = colors[status.color];
+  const breakdown = formatSpaceBreakdown(getSpaceBreakdown(lot));
+  const polygonRef = useRef<L.Polygon>(null);
+
+  useEffect(() => {
+    if (openPopup) polygonRef.current?.openPopup();
+  }, [openPopup]);
 
   return (
     <Polygon
+      ref={polygonRef}
       positions={lot.polygon}
+      eventHandlers={{
+        popupopen: () => onPopupOpen?.(lot.id),
+        popupclose: () => onPopupClose?.(lot.id),
+      }}
       pathOptions={{
         fillColor: c,
         fillOpacity: selected ? 0.85 : 0.55,
-        color: selected ? "#fff" : c,
-        weight: selected ? 3 : 1.5,
-        opacity: selected ? 1 : 0.8,
+        color: selected ? "#fff" : rank ? RECOMMENDED_PURPLE : c,
+        weight: selected || rank ? 3 : 1.5,
+        opacity: selected || rank ? 1 : 0.8,
       }}
     >
+      {rank != null && (
+        <Tooltip permanent direction="center" opacity={0.9}>
+          <span style={{ fontWeight: 700, color: RECOMMENDED_PURPLE }}>{rank}</span>
+        </Tooltip>
+      )}
       <Popup>
-        <div style={{ minWidth: 160 }}>
+        <div style={{ minWidth: showWeek ? 240 : 160 }}>
           <div style={{ fontWeight: 600, fontSize: 13, marginBottom: 4 }}>{lot.name}</div>
           <div
             style={{
@@ -57,9 +139,108 @@ export default function LotMarker({ lot, status, selected, dark }: Props) {
             {status.label}
           </div>
           <div style={{ fontSize: 11, color: "#666", marginTop: 4 }}>{status.reason}</div>
+          {liveCount && (
+            <div style={{ fontSize: 12, fontWeight: 600, marginTop: 4 }}>
+              {formatLiveCount(liveCount)}
+              <span style={{ fontSize: 10, fontWeight: 400, color: "#999" }}> · live count</span>
+            </div>
+          )}
+          {fullness && (
+            <div
+              style={{
+                display: "inline-block",
+                marginTop: 4,
+                padding: "1px 6px",
+                borderRadius: 4,
+                fontSize: 10,
+                fontWeight: 600,
+                color: "#fff",
+                background: fullnessColors[fullness.level],
+              }}
+            >
+              {formatFullness(fullness, now)}
+            </div>
+          )}
+          {stayLabel && (
+            <div style={{ fontSize: 11, color: "#16a34a", fontWeight: 600, marginTop: 2 }}>
+              {stayLabel}
+            </div>
+          )}
           <div style={{ fontSize: 11, color: "#999", marginTop: 2, textTransform: "capitalize" }}>
             {lot.category} lot{lot.overnightExempt ? " \u00b7 Overnight exempt" : ""}
           </div>
+          {breakdown && (
+            <div style={{ fontSize: 11, color: "#999", marginTop: 2 }}>{breakdown}</div>
+          )}
+          <LotBusyness lot={lot} easternTime={easternTime} />
+          {lot.visitorSpaces && (
+            <div style={{ fontSize: 11, color: "#999", marginTop: 2 }}>
+              {lot.visitorSpaces.count != null
+                ? `${lot.visitorSpaces.count} visitor spaces`
+                : "Visitor spaces"}
+              {lot.visitorSpaces.passRequired ? " \u00b7 daily pass required" : " \u00b7 no pass needed"}
+              {lot.visitorSpaces.note && <div>{lot.visitorSpaces.note}</div>}
+            </div>
+          )}
+          {onReportFullness && (
+            <div style={{ marginTop: 6 }}>
+              <div style={{ fontSize: 11, color: "#666", marginBottom: 3 }}>How full is it?</div>
+              <div style={{ display: "flex", gap: 4 }}>
+                {FULLNESS_LEVELS.map((level) => (
+                  <button
+                    key={level}
+                    disabled={reportState === "sending" || reportState === "sent"}
+                    onClick={() => {
+                      setReportState("sending");
+                      setReportError(null);
+                      onReportFullness(lot.id, level)
+                        .then(() => setReportState("sent"))
+                        .catch((err) => {
+                          setReportState("idle");
+                          setReportError(
+                            err instanceof FullnessRateLimitError
+                              ? err.message
+                              : "Couldn't send report",
+                          );
+                        });
+                    }}
+                    style={{
+                      fontSize: 10,
+                      padding: "2px 6px",
+                      borderRadius: 4,
+                      border: "none",
+                      background: fullnessColors[level],
+                      color: "#fff",
+                      cursor: "pointer",
+                      opacity: reportState === "sent" ? 0.5 : 1,
+                    }}
+                  >
+                    {level === "plenty" ? "Plenty" : FULLNESS_LABELS[level]}
+                  </button>
+                ))}
+              </div>
+              {(reportState === "sent" || reportError) && (
+                <div style={{ fontSize: 10, color: "#999", marginTop: 2 }}>
+                  {reportError ?? "Thanks for the report!"}
+                </div>
+              )}
+            </div>
+          )}
+          <button
+            onClick={() => setShowWeek((v) => !v)}
+            style={{
+              marginTop: 6,
+              padding: 0,
+              background: "none",
+              border: "none",
+              color: "#3b6ec9",
+              fontSize: 11,
+              cursor: "pointer",
+            }}
+          >
+            {showWeek ? "Hide week" : "Next 7 days \u25B8"}
+          </button>
+          {showWeek && <LotTimeline lot={lot} easternTime={easternTime} permit={permit} />}
         </div>
       </Popup>
     </Polygon>
@@ -0,0 +1,82 @@
+"use client";
+
+import { useMemo } from "react";
+import { ParkingLot, PermitType } from "@/types";
+import { EasternTime, formatMinutes } from "@/lib/time-utils";
+import { getLotTimeline } from "@/lib/timeline";
+
+const colorMap: Record<string, string> = {
+  green: "#16a34a",
+  yellow: "#ca8a04",
+  orange: "#ea580c",
+  red: "#dc2626",
+  gray: "#6b7280",
+};
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const DAY_MINUTES = 24 * 60;
+
+interface Props {
+  lot: ParkingLot;
+  easternTime: EasternTime;
+  permit: PermitType;
+}
+
+/** One bar per day for the coming week, colored by lot status. */
+export default function LotTimeline({ lot, easternTime, permit }: Props) {
+  const days = useMemo(
+    () => getLotTimeline(lot, easternTime, permit),
+    [lot, easternTime, permit],
+  );
+  const nowPct = (easternTime.minutesSinceMidnight / DAY_MINUTES) * 100;
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <div style={{ display: "flex", paddingLeft: 34, fontSize: 9, color: "#999" }}>
+        {["12a", "6a", "12p", "6p"].map((t) => (
+          <span key={t} style={{ flex: 1 }}>{t}</span>
+        ))}
+      </div>
+      {days.map((day, i) => (
+        <div key={day.date} style={{ display: "flex", alignItems: "center", gap: 6, marginTop: 3 }}>
+          <span style={{ width: 28, fontSize: 10, color: "#666", flexShrink: 0 }}>
+            {i === 0 ? "Today" : DAY_NAMES[day.dayOfWeek]}
+          </span>
+          <div
+            style={{
+              position: "relative",
+              flex: 1,
+              height: 10,
+              borderRadius: 2,
+              overflow: "hidden",
+              display: "flex",
+            }}
+          >
+            {day.segments.map((seg) => (
+              <div
+                key={seg.start}
+                title={`${seg.label}: ${formatMinutes(seg.start)}–${formatMinutes(seg.end)}`}
+                style={{
+                  width: `${((seg.end - seg.start) / DAY_MINUTES) * 100}%`,
+                  background: colorMap[seg.color],
+                }}
+              />
+            ))}
+            {i === 0 && (
+              <div
+                style={{
+                  position: "absolute",
+                  top: 0,
+                  bottom: 0,
+                  left: `${nowPct}%`,
+                  width: 2,
+                  background: "#1a1a1a",
+                }}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
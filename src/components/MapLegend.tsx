@@ -1,19 +1,25 @@
 "use client";
 
 const items = [
-  { color: "#16a34a", label: "Open to all / Students only" },
-  { color: "#ca8a04", label: "Opening soon" },
-  { color: "#ea580c", label: "Closing soon" },
-  { color: "#dc2626", label: "Employees only / Closed" },
+  { color: "#16a34a", label: "You can park here" },
+  { color: "#ca8a04", label: "Opening to you soon" },
+  { color: "#ea580c", label: "Closing to you soon" },
+  { color: "#dc2626", label: "Not available to you" },
+  { color: "#6b7280", label: "Temporarily closed" },
 ];
 
 interface Props {
   dark: boolean;
+  /** The viewer's permit, which the colors are relative to. */
+  permitLabel: string;
+  /** Name of the campus-wide emergency in effect, if any. */
+  emergencyName?: string | null;
 }
 
-export default function MapLegend({ dark }: Props) {
+export default function MapLegend({ dark, permitLabel, emergencyName }: Props) {
   const bg = dark ? "#2a2a3d" : "#ffffff";
   const text = dark ? "#eaeaea" : "#444";
+  const textMuted = dark ? "#9999bb" : "#666";
   const border = dark ? "#3d3d55" : "#e5e5e5";
 
   return (
@@ -29,6 +35,24 @@ export default function MapLegend({ dark }: Props) {
         padding: "10px 14px",
       }}
     >
+      {emergencyName && (
+        <div
+          style={{
+            fontSize: 11,
+            fontWeight: 700,
+            color: "#fff",
+            background: "#dc2626",
+            borderRadius: 4,
+            padding: "3px 8px",
+            marginBottom: 8,
+          }}
+        >
+          {"\u2744\uFE0F"} {emergencyName} — lots closing for plowing
+        </div>
+      )}
+      <div style={{ fontSize: 10, color: textMuted, marginBottom: 6 }}>
+        Showing availability for: <strong>{permitLabel}</strong>
+      </div>
       {items.map((item) => (
         <div key={item.label} style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 4 }}>
           <span
@@ -43,6 +67,24 @@ export default function MapLegend({ dark }: Props) {
           <span style={{ fontSize: 11, color: text }}>{item.label}</span>
         </div>
       ))}
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginTop: 6 }}>
+        <span
+          style={{
+            width: 12,
+            height: 12,
+            borderRadius: 2,
+            background: "#1d4ed8",
+            color: "#fff",
+            fontSize: 9,
+            lineHeight: "12px",
+            textAlign: "center",
+            flexShrink: 0,
+          }}
+        >
+          {"\u267F"}
+        </span>
+        <span style={{ fontSize: 11, color: text }}>Accessible spaces</span>
+      </div>
     </div>
   );
 }
@@ -1,25 +1,56 @@
 "use client";
 
 import { useState, useEffect, useMemo, useCallback, useRef } from "react";
-import { MapContainer, TileLayer, useMap, CircleMarker, Popup } from "react-leaflet";
+import { MapContainer, TileLayer, useMap, useMapEvents, CircleMarker, Popup } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 
 import { parkingLots } from "@/data/lots";
 import { getEasternTime } from "@/lib/time-utils";
 import { getLotStatus } from "@/lib/availability";
-import { LotStatus, ParkingLot, StatusColor, ShuttleRoute } from "@/types";
-import { fetchRoutes } from "@/lib/shuttle-api";
+import { hasAccessibleSpaces, spacesOpenTo, weightedDistance } from "@/lib/capacity";
+import { getActiveEmergency } from "@/lib/emergency";
+import { getStayLimit, formatStayLimit } from "@/lib/stay";
+import { getFullnessHint } from "@/lib/occupancy";
+import { distanceKm } from "@/lib/geometry";
+import {
+  RECOMMENDED_PURPLE,
+  TOP_CHOICES,
+  getBuilding,
+  recommendLots,
+  walkingDistanceKm,
+} from "@/lib/destinations";
+import {
+  FullnessLevel,
+  LiveCount,
+  LotFullness,
+  LotStatus,
+  ParkingLot,
+  PermitType,
+  StatusColor,
+} from "@/types";
+import { DEFAULT_PERMIT, isPermitType, permitLabel } from "@/data/permits";
+import { CampusBuilding } from "@/data/buildings";
+import { loadRoutes } from "@/lib/shuttle-store";
+import { fetchFullness, submitFullnessReport } from "@/lib/fullness";
+import { fetchLiveCounts } from "@/lib/live-counts";
 
 import LotMarker from "./LotMarker";
+import AccessibleSpaceLayer from "./AccessibleSpaceLayer";
 import MapLegend from "./MapLegend";
 import TimeDisplay from "./TimeDisplay";
-import LotListPanel from "./LotListPanel";
+import LotListPanel, { LotSortKey } from "./LotListPanel";
 import ShuttleLayer from "./ShuttleLayer";
 import ShuttlePanel from "./ShuttlePanel";
+import LotEditorPanel from "./LotEditorPanel";
+import LotEditorLayer from "./LotEditorLayer";
+import { EMPTY_DRAFT, LotDraft } from "@/lib/lot-editor";
+import { MapUrlState, formatUrlState, parseUrlState } from "@/lib/url-state";
 
 const CAMPUS_CENTER: [number, number] = [42.8172, -75.5385];
 const UPDATE_INTERVAL = 15_000;
+const FULLNESS_INTERVAL = 60_000;
+const COUNT_INTERVAL = 30_000;
 const STORAGE_KEY = "colgate-parking-settings";
 
 interface StoredSettings {
@@ -28,6 +59,7 @@ interface StoredSettings {
   visibleRouteIDs?: number[];
   showVehicles?: boolean;
   showStops?: boolean;
+  permit?: PermitType;
 }
 
 function loadSettings(): StoredSettings {
@@ -73,57 +105,139 @@ function DarkMapClass({ dark }: { dark: boolean }) {
   return null;
 }
 
-function FlyToLot({ lot }: { lot: ParkingLot | null }) {
+/** The map's opening view: a shared link's center/zoom, else its lot, else campus. */
+function initialView(linked: MapUrlState) {
+  const lot = parkingLots.find((l) => l.id === linked.lotId);
+  if (lot && !linked.center && linked.zoom == null) {
+    return { bounds: L.latLngBounds(lot.polygon), boundsOptions: { padding: [60, 60] as L.PointTuple } };
+  }
+  return {
+    center: linked.center ?? (lot ? ([lot.lat, lot.lng] as [number, number]) : CAMPUS_CENTER),
+    zoom: linked.zoom ?? (lot ? 18 : 16),
+  };
+}
+
+/**
+ * Fits a newly chosen destination and its top lots on screen, once per
+ * destination. A destination opened from a link with its own view is left alone.
+ */
+function FitToDestination({
+  building,
+  lots,
+  linkedId,
+}: {
+  building: CampusBuilding | null;
+  lots: ParkingLot[];
+  linkedId: string | null;
+}) {
+  const map = useMap();
+  const fittedRef = useRef(linkedId);
+  useEffect(() => {
+    if (!building) {
+      fittedRef.current = null;
+      return;
+    }
+    if (fittedRef.current === building.id) return;
+    fittedRef.current = building.id;
+    const bounds = L.latLngBounds([...building.entrances, ...lots.flatMap((lot) => lot.polygon)]);
+    map.flyToBounds(bounds, { padding: [60, 60], maxZoom: 18, duration: 0.8 });
+  }, [building, lots, map]);
+  return null;
+}
+
+/** Reports the map's zoom and center whenever the user pans or zooms. */
+function MapViewWatcher({ onChange }: { onChange: (zoom: number, center: [number, number]) => void }) {
+  const map = useMapEvents({
+    moveend() {
+      const c = map.getCenter();
+      onChange(map.getZoom(), [c.lat, c.lng]);
+    },
+  });
+  return null;
+}
+
+/** Flies to the selected lot, except for one opened from a link, which the map already starts on. */
+function FlyToLot({ lot, linked }: { lot: ParkingLot | null; linked: ParkingLot | null }) {
   const map = useMap();
+  const skipRef = useRef(linked);
   useEffect(() => {
     if (!lot) return;
+    if (lot === skipRef.current) {
+      skipRef.current = null;
+      return;
+    }
     const bounds = L.latLngBounds(lot.polygon.map(([lat, lng]) => [lat, lng]));
     map.flyToBounds(bounds, { padding: [60, 60], maxZoom: 19, duration: 0.8 });
   }, [lot, map]);
   return null;
 }
 
-function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLng = ((lng2 - lng1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-}
-
 export default function ParkingMap() {
+  // View state from a shared link, read once on load
+  const [linked] = useState(() => parseUrlState(window.location.search));
+  const [linkedLot] = useState(() => parkingLots.find((l) => l.id === linked.lotId) ?? null);
+
   const [now, setNow] = useState(() => new Date());
-  const [selectedLot, setSelectedLot] = useState<ParkingLot | null>(null);
+  // Hypothetical moment chosen in the planner; null means follow the live clock
+  const [plannedAt, setPlannedAt] = useState<Date | null>(null);
+  const [selectedLot, setSelectedLot] = useState<ParkingLot | null>(linkedLot);
+  /** The lot a shared link points at: the selected lot or the one whose popup is open. */
+  const [sharedLotId, setSharedLotId] = useState<string | null>(linked.lotId);
+  const [pendingPopupId, setPendingPopupId] = useState<string | null>(linked.lotId);
+  const [mapView, setMapView] = useState(
+    linked.zoom != null && linked.center ? { zoom: linked.zoom, center: linked.center } : null,
+  );
   const [dark, setDark] = useState<boolean | null>(null);
+  const [permit, setPermit] = useState<PermitType>(DEFAULT_PERMIT);
+  const [fullness, setFullness] = useState<Record<string, LotFullness>>({});
+  const [liveCounts, setLiveCounts] = useState<Record<string, LiveCount>>({});
 
-  const [search, setSearch] = useState("");
-  const [statusFilters, setStatusFilters] = useState<Set<StatusColor>>(new Set());
-  const [categoryFilters, setCategoryFilters] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState(linked.search);
+  const [statusFilters, setStatusFilters] = useState<Set<StatusColor>>(
+    () => new Set(linked.statusFilters),
+  );
+  const [categoryFilters, setCategoryFilters] = useState<Set<string>>(
+    () => new Set(linked.categoryFilters),
+  );
+  const [sortKey, setSortKey] = useState<LotSortKey>("status");
 
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
   const [nearMeActive, setNearMeActive] = useState(false);
+  const [destination, setDestination] = useState<CampusBuilding | null>(
+    () => (linked.destinationId ? getBuilding(linked.destinationId) ?? null : null),
+  );
   const [locatingUser, setLocatingUser] = useState(false);
 
   // Shuttle state
-  const [shuttleMode, setShuttleMode] = useState(true);
-  const [apiRoutes, setApiRoutes] = useState<ShuttleRoute[]>([]);
+  // A link to a lot opens the parking view unless it says otherwise
+  const [shuttleMode, setShuttleMode] = useState(
+    linked.mode ? linked.mode === "shuttle" : !linked.lotId,
+  );
   const [visibleRouteIDs, setVisibleRouteIDs] = useState<Set<number>>(new Set());
   const [showVehicles, setShowVehicles] = useState(true);
   const [showStops, setShowStops] = useState(true);
   const settingsReadyRef = useRef(false);
 
+  // Boundary editor for admins, opened with ?admin
+  const [adminMode, setAdminMode] = useState(
+    () => new URLSearchParams(window.location.search).has("admin"),
+  );
+  const [draft, setDraft] = useState<LotDraft>(EMPTY_DRAFT);
+  const [drawing, setDrawing] = useState(false);
+
   // Restore settings from localStorage and fetch routes on mount (client-side only)
   useEffect(() => {
     const saved = loadSettings();
     if (saved.dark != null) setDark(saved.dark);
-    if (saved.shuttleMode != null) setShuttleMode(saved.shuttleMode);
+    if (saved.shuttleMode != null && !linked.mode && !linked.lotId) {
+      setShuttleMode(saved.shuttleMode);
+    }
     if (saved.showVehicles != null) setShowVehicles(saved.showVehicles);
     if (saved.showStops != null) setShowStops(saved.showStops);
+    // Settings saved by an older version may name a permit that no longer exists
+    if (saved.permit != null) setPermit(isPermitType(saved.permit) ? saved.permit : DEFAULT_PERMIT);
 
-    fetchRoutes().then((routes) => {
-      setApiRoutes(routes);
+    loadRoutes().then((routes) => {
       if (saved.visibleRouteIDs && saved.visibleRouteIDs.length > 0) {
         setVisibleRouteIDs(new Set(saved.visibleRouteIDs));
       } else {
@@ -142,7 +256,7 @@ export default function ParkingMap() {
       mq.addEventListener("change", handler);
       return () => mq.removeEventListener("change", handler);
     }
-  }, []);
+  }, [linked]);
 
   // Persist settings whenever they change (only after initial restore is done)
   useEffect(() => {
@@ -153,24 +267,99 @@ export default function ParkingMap() {
       visibleRouteIDs: [...visibleRouteIDs],
       showVehicles,
       showStops,
+      permit,
     });
-  }, [dark, shuttleMode, visibleRouteIDs, showVehicles, showStops]);
+  }, [dark, shuttleMode, visibleRouteIDs, showVehicles, showStops, permit]);
+
+  // Mirror the view in the address bar so it can be shared
+  useEffect(() => {
+    const query = formatUrlState(
+      {
+        lotId: sharedLotId,
+        mode: shuttleMode ? "shuttle" : "parking",
+        search,
+        statusFilters: [...statusFilters],
+        categoryFilters: [...categoryFilters],
+        destinationId: destination?.id ?? null,
+        zoom: mapView?.zoom ?? null,
+        center: mapView?.center ?? null,
+      },
+      window.location.search,
+    );
+    if (query !== window.location.search) {
+      window.history.replaceState(null, "", `${window.location.pathname}${query}${window.location.hash}`);
+    }
+  }, [sharedLotId, shuttleMode, search, statusFilters, categoryFilters, destination, mapView]);
 
   useEffect(() => {
     const id = setInterval(() => setNow(new Date()), UPDATE_INTERVAL);
     return () => clearInterval(id);
   }, []);
 
-  const easternTime = useMemo(() => getEasternTime(now), [now]);
+  // Crowd-sourced fullness reports; failures just leave the last known reports up
+  useEffect(() => {
+    const load = () => fetchFullness().then(setFullness).catch(() => {});
+    load();
+    const id = setInterval(load, FULLNESS_INTERVAL);
+    return () => clearInterval(id);
+  }, []);
+
+  // Live gate/sensor counts for the lots that have them
+  useEffect(() => {
+    const load = () => fetchLiveCounts().then(setLiveCounts).catch(() => {});
+    load();
+    const id = setInterval(load, COUNT_INTERVAL);
+    return () => clearInterval(id);
+  }, []);
+
+  const handleReportFullness = useCallback(async (lotId: string, level: FullnessLevel) => {
+    const updated = await submitFullnessReport(lotId, level);
+    setFullness((prev) => {
+      const next = { ...prev };
+      if (updated) next[lotId] = updated;
+      else delete next[lotId];
+      return next;
+    });
+  }, []);
+
+  const easternTime = useMemo(() => getEasternTime(plannedAt ?? now), [plannedAt, now]);
+  const emergency = useMemo(() => getActiveEmergency(easternTime), [easternTime]);
 
   const statuses = useMemo(() => {
     const map = new Map<string, LotStatus>();
     for (const lot of parkingLots) {
-      map.set(lot.id, getLotStatus(lot, easternTime));
+      map.set(lot.id, getLotStatus(lot, easternTime, permit));
+    }
+    return map;
+  }, [easternTime, permit]);
+
+  const stayLabels = useMemo(() => {
+    const map = new Map<string, string | null>();
+    for (const lot of parkingLots) {
+      map.set(lot.id, formatStayLimit(getStayLimit(lot, easternTime, permit), easternTime));
+    }
+    return map;
+  }, [easternTime, permit]);
+
+  const fullnessHints = useMemo(() => {
+    const map = new Map<string, string | null>();
+    for (const lot of parkingLots) {
+      map.set(lot.id, getFullnessHint(lot, easternTime));
     }
     return map;
   }, [easternTime]);
 
+  // A partial total would undercount, so it's hidden until every open lot is sized
+  const openSpaces = useMemo(() => {
+    let total = 0;
+    for (const lot of parkingLots) {
+      const spaces = spacesOpenTo(lot, statuses.get(lot.id)!, easternTime, permit);
+      if (spaces == null) return null;
+      total += spaces;
+    }
+    return total;
+  }, [statuses, easternTime, permit]);
+
   const lotDistances = useMemo(() => {
     if (!userLocation) return new Map<string, number>();
     const map = new Map<string, number>();
@@ -191,7 +380,10 @@ export default function ParkingMap() {
         const matches =
           (categoryFilters.has("student") && lot.category === "student") ||
           (categoryFilters.has("employee") && lot.category === "employee") ||
-          (categoryFilters.has("overnightExempt") && lot.overnightExempt);
+          (categoryFilters.has("overnightExempt") && lot.overnightExempt) ||
+          (categoryFilters.has("visitor") && (lot.category === "visitor" || !!lot.visitorSpaces)) ||
+          (categoryFilters.has("accessible") &&
+            (lot.category === "restricted" || hasAccessibleSpaces(lot)));
         if (!matches) return false;
       }
       if (nearMeActive) {
@@ -201,19 +393,68 @@ export default function ParkingMap() {
       return true;
     });
 
+    if (destination) {
+      // Open lots by shortest walk, then lots opening soon
+      return recommendLots(result, statuses, destination).map((r) => r.lot);
+    }
+
     if (nearMeActive && userLocation) {
-      result = [...result].sort((a, b) => {
-        return (lotDistances.get(a.id) ?? Infinity) - (lotDistances.get(b.id) ?? Infinity);
-      });
+      // Rank by distance, discounted for size so tiny lots don't crowd out big ones
+      const rank = (lot: ParkingLot) => {
+        const d = lotDistances.get(lot.id);
+        return d == null ? Infinity : weightedDistance(d, lot);
+      };
+      result = [...result].sort((a, b) => rank(a) - rank(b));
     }
 
     return result;
-  }, [statuses, search, statusFilters, categoryFilters, nearMeActive, userLocation, lotDistances]);
+  }, [
+    statuses,
+    search,
+    statusFilters,
+    categoryFilters,
+    nearMeActive,
+    userLocation,
+    lotDistances,
+    destination,
+  ]);
 
   const filteredIds = useMemo(() => new Set(filteredLots.map((l) => l.id)), [filteredLots]);
 
+  const walkDistances = useMemo(() => {
+    const map = new Map<string, number>();
+    if (!destination) return map;
+    for (const lot of parkingLots) map.set(lot.id, walkingDistanceKm(lot, destination));
+    return map;
+  }, [destination]);
+
+  const topChoices = useMemo(
+    () => (destination ? filteredLots.slice(0, TOP_CHOICES) : []),
+    [destination, filteredLots],
+  );
+  const topChoiceIds = useMemo(() => topChoices.map((lot) => lot.id), [topChoices]);
+
+  const handleDestinationChange = useCallback((building: CampusBuilding | null) => {
+    setDestination(building);
+    if (building) setNearMeActive(false);
+  }, []);
+
   const handleLotClick = useCallback((lot: ParkingLot) => {
     setSelectedLot(lot);
+    setSharedLotId(lot.id);
+  }, []);
+
+  const handlePopupOpen = useCallback((lotId: string) => {
+    setSharedLotId(lotId);
+    setPendingPopupId((id) => (id === lotId ? null : id));
+  }, []);
+
+  const handlePopupClose = useCallback((lotId: string) => {
+    setSharedLotId((id) => (id === lotId ? null : id));
+  }, []);
+
+  const handleMapMove = useCallback((zoom: number, center: [number, number]) => {
+    setMapView({ zoom, center });
   }, []);
 
   const toggleDark = useCallback(() => setDark((d) => !d), []);
@@ -250,6 +491,7 @@ export default function ParkingMap() {
       setNearMeActive(false);
       return;
     }
+    setDestination(null);
     if (userLocation) {
       setNearMeActive(true);
       return;
@@ -273,10 +515,21 @@ export default function ParkingMap() {
 
   return (
     <div style={{ display: "flex", height: "100vh", width: "100vw", background: isDark ? "#2a2a3d" : "#fff" }}>
-      {shuttleMode ? (
+      {adminMode ? (
+        <LotEditorPanel
+          draft={draft}
+          onDraftChange={setDraft}
+          drawing={drawing}
+          onToggleDrawing={() => setDrawing((v) => !v)}
+          onExit={() => {
+            setAdminMode(false);
+            setDrawing(false);
+          }}
+          dark={isDark}
+        />
+      ) : shuttleMode ? (
         <ShuttlePanel
           dark={isDark}
-          apiRoutes={apiRoutes}
           visibleRouteIDs={visibleRouteIDs}
           onToggleRouteVisibility={toggleRouteVisibility}
           showVehicles={showVehicles}
@@ -289,6 +542,11 @@ export default function ParkingMap() {
         <LotListPanel
           lots={filteredLots}
           statuses={statuses}
+          stayLabels={stayLabels}
+          fullnessHints={fullnessHints}
+          fullness={plannedAt ? undefined : fullness}
+          liveCounts={plannedAt ? undefined : liveCounts}
+          now={now.getTime()}
           selectedLotId={selectedLot?.id ?? null}
           dark={isDark}
           search={search}
@@ -299,18 +557,25 @@ export default function ParkingMap() {
           onToggleCategory={toggleCategory}
           onLotClick={handleLotClick}
           onToggleDark={toggleDark}
+          permit={permit}
+          onPermitChange={setPermit}
           nearMeActive={nearMeActive}
           locatingUser={locatingUser}
           onNearMe={handleNearMe}
           lotDistances={lotDistances}
-          skipSort={nearMeActive && !!userLocation}
+          destination={destination}
+          onDestinationChange={handleDestinationChange}
+          walkDistances={walkDistances}
+          topChoiceIds={topChoiceIds}
+          skipSort={(nearMeActive && !!userLocation) || !!destination}
+          sortKey={sortKey}
+          onSortChange={setSortKey}
           onShowShuttles={() => setShuttleMode(true)}
         />
       )}
       <div style={{ flex: 1, position: "relative" }}>
         <MapContainer
-          center={CAMPUS_CENTER}
-          zoom={16}
+          {...initialView(linked)}
           className="h-full w-full"
           zoomControl={true}
         >
@@ -339,7 +604,18 @@ export default function ParkingMap() {
             pane="tileLabels"
           />
 
-          {parkingLots.map((lot) => {
+          {adminMode && (
+            <LotEditorLayer
+              draft={draft}
+              onChange={(vertices) => setDraft((d) => ({ ...d, vertices }))}
+              drawing={drawing}
+              easternTime={easternTime}
+              permit={permit}
+              now={now.getTime()}
+              dark={isDark}
+            />
+          )}
+          {!adminMode && parkingLots.map((lot) => {
             if (!filteredIds.has(lot.id)) return null;
             const status = statuses.get(lot.id)!;
             return (
@@ -347,11 +623,23 @@ export default function ParkingMap() {
                 key={lot.id}
                 lot={lot}
                 status={status}
+                stayLabel={stayLabels.get(lot.id)}
+                easternTime={easternTime}
+                permit={permit}
+                fullness={plannedAt ? undefined : fullness[lot.id]}
+                liveCount={plannedAt ? undefined : liveCounts[lot.id]}
+                now={now.getTime()}
+                onReportFullness={plannedAt ? undefined : handleReportFullness}
                 selected={lot.id === selectedLot?.id}
+                rank={destination ? topChoiceIds.indexOf(lot.id) + 1 || undefined : undefined}
+                openPopup={lot.id === pendingPopupId}
+                onPopupOpen={handlePopupOpen}
+                onPopupClose={handlePopupClose}
                 dark={isDark}
               />
             );
           })}
+          {!adminMode && <AccessibleSpaceLayer lots={filteredLots} dark={isDark} />}
           {userLocation && nearMeActive && (
             <CircleMarker
               center={userLocation}
@@ -361,10 +649,37 @@ export default function ParkingMap() {
               <Popup>Your location</Popup>
             </CircleMarker>
           )}
-          <FlyToLot lot={selectedLot} />
+          {destination?.entrances.map(([lat, lng], i) => (
+            <CircleMarker
+              key={`${destination.id}-${i}`}
+              center={[lat, lng]}
+              radius={7}
+              pathOptions={{ fillColor: RECOMMENDED_PURPLE, fillOpacity: 1, color: "#fff", weight: 2 }}
+            >
+              <Popup>{destination.name}</Popup>
+            </CircleMarker>
+          ))}
+          <FlyToLot lot={selectedLot} linked={linkedLot} />
+          <FitToDestination
+            building={destination}
+            lots={topChoices}
+            linkedId={linked.zoom != null && linked.center ? linked.destinationId : null}
+          />
+          <MapViewWatcher onChange={handleMapMove} />
         </MapContainer>
-        <MapLegend dark={isDark} />
-        <TimeDisplay easternTime={easternTime} dark={isDark} />
+        <MapLegend
+          dark={isDark}
+          permitLabel={permitLabel(permit)}
+          emergencyName={emergency?.name}
+        />
+        <TimeDisplay
+          easternTime={easternTime}
+          openSpaces={openSpaces}
+          dark={isDark}
+          planning={plannedAt != null}
+          onPlan={setPlannedAt}
+          onBackToLive={() => setPlannedAt(null)}
+        />
       </div>
     </div>
   );
@@ -1,21 +1,12 @@
 "use client";
 
-import { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import { useEffect, useState, useMemo, useRef } from "react";
 import { Polyline, CircleMarker, Marker, Popup, useMap } from "react-leaflet";
 import L from "leaflet";
-import {
-  ShuttleVehicle,
-  ShuttleRoute,
-  ShuttleStop,
-  ShuttleShape,
-} from "@/types";
-import {
-  fetchVehicles,
-  fetchRoutes,
-  fetchStops,
-  fetchShapes,
-  parseShapePoints,
-} from "@/lib/shuttle-api";
+import { ShuttleRoute } from "@/types";
+import { parseShapePoints } from "@/lib/shuttle-api";
+import { useShuttleData, positionTime } from "@/lib/shuttle-store";
+import { getEasternTime } from "@/lib/time-utils";
 
 /** Client-side route color overrides (without leading #). */
 const ROUTE_COLOR_OVERRIDES: Record<number, string> = {
@@ -61,6 +52,9 @@ const STOP_ROUTES: Record<number, number[]> = {
   144230: [12626],                          // Bernstein Hall
 };
 
+/** Fill for vehicles whose position is too old to trust. */
+const STALE_VEHICLE_COLOR = "#9ca3af";
+
 /** Darken a hex color (without leading #) by a factor (0–1). */
 function darkenHex(hex: string, amount: number): string {
   const r = Math.round(parseInt(hex.slice(0, 2), 16) * (1 - amount));
@@ -231,52 +225,14 @@ export default function ShuttleLayer({
   showVehicles,
   showStops,
 }: ShuttleLayerProps) {
-  const [routes, setRoutes] = useState<ShuttleRoute[]>([]);
+  const shuttle = useShuttleData();
+  const { routes, stops, shapes, vehicles, vehiclesStale: stale, checkedAt } = shuttle;
   const allRouteIDs = useMemo(() => routes.map((r) => r.routeID), [routes]);
   const panesReady = useShuttlePanes(allRouteIDs);
-  const [stops, setStops] = useState<ShuttleStop[]>([]);
-  const [shapes, setShapes] = useState<ShuttleShape[]>([]);
-  const [vehicles, setVehicles] = useState<ShuttleVehicle[]>([]);
-  const mountedRef = useRef(true);
-
-  const loadStatic = useCallback(async () => {
-    try {
-      const [r, st, sh] = await Promise.all([
-        fetchRoutes(),
-        fetchStops(),
-        fetchShapes(),
-      ]);
-      if (!mountedRef.current) return;
-      setRoutes(r);
-      setStops(st);
-      setShapes(sh);
-    } catch (e) {
-      console.error("Failed to load shuttle static data:", e);
-    }
-  }, []);
-
-  const loadVehicles = useCallback(async () => {
-    try {
-      const v = await fetchVehicles();
-      if (!mountedRef.current) return;
-      setVehicles(v.filter((veh) => veh.routeID !== -1));
-    } catch (e) {
-      console.error("Failed to load shuttle vehicles:", e);
-    }
-  }, []);
 
-  useEffect(() => {
-    mountedRef.current = true;
-    loadStatic();
-    loadVehicles();
-    const staticInterval = setInterval(loadStatic, 60_000);
-    const vehicleInterval = setInterval(loadVehicles, 5_000);
-    return () => {
-      mountedRef.current = false;
-      clearInterval(staticInterval);
-      clearInterval(vehicleInterval);
-    };
-  }, [loadStatic, loadVehicles]);
+  const asOf = shuttle.vehiclesUpdatedAt != null
+    ? getEasternTime(new Date(shuttle.vehiclesUpdatedAt)).formatted
+    : null;
 
   const routeMap = useMemo(() => {
     const m = new Map<number, ShuttleRoute>();
@@ -290,12 +246,18 @@ export default function ShuttleLayer({
     return m;
   }, [shapes]);
 
+  // Buses whose trackers have gone quiet for too long are dropped entirely
+  const trackedVehicles = useMemo(
+    () => vehicles.filter((v) => v.freshness !== "lost"),
+    [vehicles]
+  );
+
   // Only show routes that have at least one active vehicle AND are checked
   const liveRouteIDs = useMemo(() => {
     const ids = new Set<number>();
-    for (const v of vehicles) ids.add(v.routeID);
+    for (const v of trackedVehicles) ids.add(v.routeID);
     return ids;
-  }, [vehicles]);
+  }, [trackedVehicles]);
 
   const filteredRoutes = useMemo(
     () => routes.filter((r) => visibleRouteIDs.has(r.routeID) && liveRouteIDs.has(r.routeID)),
@@ -305,9 +267,9 @@ export default function ShuttleLayer({
   const filteredVehicles = useMemo(
     () =>
       showVehicles
-        ? vehicles.filter((v) => visibleRouteIDs.has(v.routeID))
+        ? trackedVehicles.filter((v) => visibleRouteIDs.has(v.routeID))
         : [],
-    [vehicles, visibleRouteIDs, showVehicles]
+    [trackedVehicles, visibleRouteIDs, showVehicles]
   );
 
   // Stop → routeID[] mapping from official schedules
@@ -451,8 +413,11 @@ export default function ShuttleLayer({
       {/* Vehicle markers */}
       {filteredVehicles.map((veh) => {
         const route = routeMap.get(veh.routeID);
-        const color = route ? routeColor(route) : "#3b82f6";
+        const color = stale ? STALE_VEHICLE_COLOR : route ? routeColor(route) : "#3b82f6";
         const routeName = route ? route.longName : "Unknown";
+        // This bus's own tracker has gone quiet, even if the feed is fine
+        const quiet = veh.freshness === "stale";
+        const minsAgo = Math.round((checkedAt - positionTime(veh)) / 60_000);
         return (
           <CircleMarker
             key={`vehicle-${veh.vehicleID}`}
@@ -461,8 +426,9 @@ export default function ShuttleLayer({
             pane="shuttleVehicles"
             pathOptions={{
               fillColor: color,
-              fillOpacity: 1,
+              fillOpacity: stale ? 0.6 : quiet ? 0.45 : 1,
               color: "#fff",
+              opacity: quiet ? 0.6 : 1,
               weight: 3,
             }}
           >
@@ -473,6 +439,16 @@ export default function ShuttleLayer({
                 Route: {routeName}
                 <br />
                 Speed: {Math.round(veh.speed)} mph
+                {quiet && (
+                  <div style={{ marginTop: 4, color: "#6b7280" }}>
+                    Last seen {minsAgo} min ago
+                  </div>
+                )}
+                {stale && asOf && (
+                  <div style={{ marginTop: 4, color: "#6b7280" }}>
+                    As of {asOf} — position may be out of date
+                  </div>
+                )}
               </div>
             </Popup>
           </CircleMarker>
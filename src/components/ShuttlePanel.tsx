@@ -10,12 +10,12 @@ import {
   toMinutes,
 } from "@/data/shuttle-schedules";
 import { EasternTime, getEasternTime } from "@/lib/time-utils";
-import { ShuttleRoute, ShuttleVehicle } from "@/types";
-import { fetchVehicles } from "@/lib/shuttle-api";
+import { ShuttleRoute } from "@/types";
+import { useShuttleData } from "@/lib/shuttle-store";
+import { describeShuttleError } from "@/lib/shuttle-api";
 
 interface ShuttlePanelProps {
   dark: boolean;
-  apiRoutes: ShuttleRoute[];
   visibleRouteIDs: Set<number>;
   onToggleRouteVisibility: (routeID: number) => void;
   showVehicles: boolean;
@@ -46,7 +46,6 @@ function getRouteColor(route: ShuttleRoute): string {
 
 export default function ShuttlePanel({
   dark,
-  apiRoutes,
   visibleRouteIDs,
   onToggleRouteVisibility,
   showVehicles,
@@ -58,7 +57,8 @@ export default function ShuttlePanel({
   const [now, setNow] = useState(() => new Date());
   const [expandedRoute, setExpandedRoute] = useState<string | null>(null);
   const [expandedSub, setExpandedSub] = useState<string | null>(null);
-  const [activeVehicles, setActiveVehicles] = useState<ShuttleVehicle[]>([]);
+  const shuttle = useShuttleData();
+  const { vehicles, routes: apiRoutes, error, errorSince, retryAt, circuitOpen, offline } = shuttle;
   const [showInactive, setShowInactive] = useState(false);
   const [showInactiveRoutes, setShowInactiveRoutes] = useState(false);
   const prevLiveRef = useRef<Set<number>>(new Set());
@@ -69,18 +69,11 @@ export default function ShuttlePanel({
     return () => clearInterval(id);
   }, []);
 
-  useEffect(() => {
-    let cancelled = false;
-    const load = async () => {
-      try {
-        const v = await fetchVehicles();
-        if (!cancelled) setActiveVehicles(v.filter((x) => x.routeID !== -1));
-      } catch { /* silent */ }
-    };
-    load();
-    const id = setInterval(load, 10_000);
-    return () => { cancelled = true; clearInterval(id); };
-  }, []);
+  // Buses whose trackers have gone quiet don't make a route active
+  const activeVehicles = useMemo(
+    () => vehicles.filter((v) => v.freshness !== "lost"),
+    [vehicles]
+  );
 
   // Auto-check routes that gain vehicles, auto-uncheck routes that lose vehicles.
   // Wait for the first real vehicle data to establish a baseline before auto-toggling.
@@ -205,6 +198,68 @@ export default function ShuttlePanel({
           {activeVehicles.length} vehicle{activeVehicles.length !== 1 ? "s" : ""} active
         </div>
 
+        {/* Offline — polling resumes when the connection comes back */}
+        {offline && (
+          <div
+            role="status"
+            style={{
+              marginTop: 8,
+              padding: "6px 10px",
+              borderRadius: 6,
+              background: d ? "#333" : "#f3f4f6",
+              border: `1px solid ${d ? "#555" : "#d1d5db"}`,
+              fontSize: 11,
+              lineHeight: 1.4,
+              color: text,
+            }}
+          >
+            <div style={{ fontWeight: 600 }}>You&apos;re offline</div>
+            <div style={{ color: textMuted }}>
+              {shuttle.vehiclesUpdatedAt != null
+                ? `Showing buses as of ${getEasternTime(new Date(shuttle.vehiclesUpdatedAt)).formatted}`
+                : "Bus positions will load when you're back online"}
+            </div>
+          </div>
+        )}
+
+        {/* Shuttle data outage — what's shown is the last data that loaded */}
+        {!offline && error && errorSince != null && (
+          <div
+            role="status"
+            style={{
+              marginTop: 8,
+              padding: "6px 10px",
+              borderRadius: 6,
+              background: d ? "#3d2a2a" : "#fef2f2",
+              border: `1px solid ${d ? "#7f1d1d" : "#fecaca"}`,
+              fontSize: 11,
+              lineHeight: 1.4,
+              color: text,
+            }}
+          >
+            <div style={{ fontWeight: 600 }}>
+              {"\u26A0\uFE0F"} Shuttle data unavailable since{" "}
+              {getEasternTime(new Date(errorSince)).formatted}
+            </div>
+            <div style={{ color: textMuted }} title={error.message}>
+              {describeShuttleError(error)}
+            </div>
+            {retryAt != null && (
+              <div style={{ color: textMuted }}>
+                {circuitOpen ? "Paused after repeated failures; retrying at " : "Retrying at "}
+                {getEasternTime(new Date(retryAt)).formatted}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Positions are old but nothing has failed outright yet */}
+        {!offline && !error && shuttle.vehiclesStale && (
+          <div style={{ marginTop: 6, marginLeft: 28, fontSize: 11, color: textMuted }}>
+            Buses as of {getEasternTime(new Date(shuttle.vehiclesUpdatedAt!)).formatted}
+          </div>
+        )}
+
         {/* Map layer controls */}
         <div
           style={{
@@ -1,19 +1,45 @@
 "use client";
 
-import { EasternTime } from "@/lib/time-utils";
+import { useState } from "react";
+import {
+  EasternTime,
+  formatDate,
+  formatStamp,
+  fromEasternStamp,
+  toStamp,
+} from "@/lib/time-utils";
 import { getPeriodLabel } from "@/lib/availability";
 import { getNextTransition, formatCountdown } from "@/lib/transitions";
-import { isWeekend } from "@/lib/time-utils";
+import { getCalendarOverride, POLICY_DESCRIPTIONS } from "@/data/calendar";
+import { getActiveEmergency, getClearanceCountdowns } from "@/lib/emergency";
 
 interface Props {
   easternTime: EasternTime;
+  /** Spaces the viewer could park in at `easternTime`, across all lots; null if any lot counted hasn't been sized. */
+  openSpaces: number | null;
   dark: boolean;
+  /** True when showing a hypothetical time picked in the planner rather than now. */
+  planning: boolean;
+  onPlan: (at: Date) => void;
+  onBackToLive: () => void;
 }
 
-export default function TimeDisplay({ easternTime, dark }: Props) {
-  const weekend = isWeekend(easternTime.dayOfWeek);
-  const period = getPeriodLabel(easternTime.minutesSinceMidnight, weekend);
+const PLANNING_COLOR = "#7c3aed";
+
+export default function TimeDisplay({
+  easternTime,
+  openSpaces,
+  dark,
+  planning,
+  onPlan,
+  onBackToLive,
+}: Props) {
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const period = getPeriodLabel(easternTime);
   const next = getNextTransition(easternTime);
+  const override = getCalendarOverride(easternTime.date);
+  const emergency = getActiveEmergency(easternTime);
+  const clearances = emergency ? getClearanceCountdowns(emergency, easternTime) : [];
 
   const bg = dark ? "#2a2a3d" : "#ffffff";
   const text = dark ? "#eaeaea" : "#1a1a1a";
@@ -28,19 +54,144 @@ export default function TimeDisplay({ easternTime, dark }: Props) {
         right: 16,
         zIndex: 1000,
         background: bg,
-        border: `1px solid ${border}`,
+        border: planning ? `2px solid ${PLANNING_COLOR}` : `1px solid ${border}`,
         borderRadius: 8,
         padding: "10px 14px",
         textAlign: "right",
       }}
     >
+      {planning && (
+        <div
+          style={{
+            fontSize: 10,
+            fontWeight: 700,
+            color: PLANNING_COLOR,
+            textTransform: "uppercase",
+            letterSpacing: 0.5,
+            marginBottom: 2,
+          }}
+        >
+          Planning — not live
+        </div>
+      )}
       <div style={{ fontSize: 16, fontWeight: 700, color: text }}>
+        {planning && `${formatDate(easternTime.date)} · `}
         {easternTime.formatted} ET
       </div>
       <div style={{ fontSize: 11, color: textMuted, marginTop: 2 }}>{period}</div>
-      <div style={{ fontSize: 11, color: textMuted, marginTop: 2 }}>
-        Next: {next.label} in {formatCountdown(next.minutesUntil)}
+      {openSpaces != null && (
+        <div style={{ fontSize: 11, fontWeight: 600, color: text, marginTop: 2 }}>
+          {openSpaces.toLocaleString("en-US")} spaces open to you{planning ? " then" : " now"}
+        </div>
+      )}
+      {override && (
+        <div
+          style={{
+            marginTop: 6,
+            padding: "4px 8px",
+            borderRadius: 4,
+            background: dark ? "#3d3d6a" : "#e8f0fe",
+            fontSize: 11,
+            fontWeight: 600,
+            color: dark ? "#8ba4d9" : "#3b6ec9",
+          }}
+        >
+          {override.name} — {POLICY_DESCRIPTIONS[override.policy]}
+          {override.provisional && (
+            <span style={{ fontWeight: 400 }}> (dates not yet confirmed)</span>
+          )}
+        </div>
+      )}
+      {next && (
+        <div style={{ fontSize: 11, color: textMuted, marginTop: 2 }}>
+          Next: {next.label} in {formatCountdown(next.minutesUntil)}
+        </div>
+      )}
+      <div style={{ display: "flex", gap: 4, justifyContent: "flex-end", marginTop: 8 }}>
+        {planning ? (
+          <button
+            onClick={() => {
+              setPickerOpen(false);
+              onBackToLive();
+            }}
+            style={{
+              fontSize: 11,
+              padding: "3px 8px",
+              borderRadius: 4,
+              border: "none",
+              background: PLANNING_COLOR,
+              color: "#fff",
+              cursor: "pointer",
+              fontWeight: 600,
+            }}
+          >
+            Back to live
+          </button>
+        ) : (
+          <button
+            onClick={() => setPickerOpen((v) => !v)}
+            style={{
+              fontSize: 11,
+              padding: "3px 8px",
+              borderRadius: 4,
+              border: `1px solid ${border}`,
+              background: "transparent",
+              color: textMuted,
+              cursor: "pointer",
+              fontWeight: 500,
+            }}
+          >
+            Plan ahead
+          </button>
+        )}
       </div>
+      {(pickerOpen || planning) && (
+        <input
+          type="datetime-local"
+          aria-label="Eastern date and time to plan for"
+          value={toStamp(easternTime.date, easternTime.minutesSinceMidnight)}
+          onChange={(e) => {
+            if (e.target.value) onPlan(fromEasternStamp(e.target.value));
+          }}
+          style={{
+            marginTop: 6,
+            padding: "4px 6px",
+            fontSize: 12,
+            border: `1px solid ${border}`,
+            borderRadius: 4,
+            background: dark ? "#353550" : "#f5f5f5",
+            color: text,
+            colorScheme: dark ? "dark" : "light",
+          }}
+        />
+      )}
+      {emergency && (
+        <div
+          style={{
+            marginTop: 8,
+            padding: "6px 8px",
+            borderRadius: 4,
+            background: "#dc2626",
+            color: "#fff",
+            textAlign: "left",
+            maxWidth: 240,
+          }}
+        >
+          <div style={{ fontSize: 12, fontWeight: 700 }}>
+            {"\u2744\uFE0F"} {emergency.name} in effect
+          </div>
+          {clearances.map((c, i) => (
+            <div key={`${c.deadline}-${i}`} style={{ fontSize: 11, marginTop: 4 }}>
+              <div style={{ fontWeight: 600 }}>
+                {c.minutesUntil > 0
+                  ? `Clear by ${formatStamp(c.deadline, easternTime.date)} (${formatCountdown(c.minutesUntil)})`
+                  : `Closed for plowing until ${formatStamp(c.reopens, easternTime.date)}`}
+              </div>
+              <div>{c.lots.map((lot) => lot.name).join(", ")}</div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
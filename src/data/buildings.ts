@@ -0,0 +1,240 @@
+/**
+ * Campus buildings and destinations, for "where are you going?" parking
+ * recommendations.
+ * Source: Colgate campus map. Entrances are the main public doors, traced by
+ * hand; coordinates are approximate to a few metres.
+ */
+
+export interface CampusBuilding {
+  id: string;
+  name: string;
+  /** Other names people search for: abbreviations, nicknames, departments inside. */
+  aliases: string[];
+  /** [lat, lng] of each public entrance; walking distance is to the nearest one. */
+  entrances: [number, number][];
+}
+
+export const campusBuildings: CampusBuilding[] = [
+  {
+    id: "alana-cultural-center",
+    name: "ALANA Cultural Center",
+    aliases: ["ALANA"],
+    entrances: [[42.81792, -75.53268]],
+  },
+  {
+    id: "alumni-hall",
+    name: "Alumni Hall",
+    aliases: ["Alumni"],
+    entrances: [[42.81702, -75.53608]],
+  },
+  {
+    id: "andy-kerr-stadium",
+    name: "Andy Kerr Stadium",
+    aliases: ["Football stadium", "Crown Field"],
+    entrances: [
+      [42.81752, -75.54425],
+      [42.81838, -75.54371],
+    ],
+  },
+  {
+    id: "base-camp",
+    name: "Base Camp",
+    aliases: ["Outdoor Education"],
+    entrances: [[42.81466, -75.54061]],
+  },
+  {
+    id: "benton-hall",
+    name: "Benton Hall",
+    aliases: ["Admission", "Admissions Office"],
+    entrances: [[42.81903, -75.53449]],
+  },
+  {
+    id: "burke-hall",
+    name: "Burke Hall",
+    aliases: ["Burke"],
+    entrances: [[42.81651, -75.53356]],
+  },
+  {
+    id: "campus-safety",
+    name: "Campus Safety",
+    aliases: ["Security", "Parking Services", "Parking permits", "Visitor passes"],
+    entrances: [[42.81934, -75.53318]],
+  },
+  {
+    id: "case-geyer-library",
+    name: "Case-Geyer Library",
+    aliases: ["Library", "Case Library", "Geyer"],
+    entrances: [
+      [42.81822, -75.53782],
+      [42.81866, -75.53818],
+    ],
+  },
+  {
+    id: "chapel-house",
+    name: "Chapel House",
+    aliases: [],
+    entrances: [[42.81478, -75.53698]],
+  },
+  {
+    id: "class-of-1965-arena",
+    name: "Class of 1965 Arena",
+    aliases: ["Hockey arena", "Ice rink", "Starr Rink"],
+    entrances: [[42.81662, -75.54308]],
+  },
+  {
+    id: "colgate-bookstore",
+    name: "Colgate Bookstore",
+    aliases: ["Bookstore", "Barnes & Noble", "Downtown"],
+    entrances: [[42.82688, -75.54512]],
+  },
+  {
+    id: "colgate-memorial-chapel",
+    name: "Colgate Memorial Chapel",
+    aliases: ["Chapel", "Memorial Chapel"],
+    entrances: [[42.81868, -75.53842]],
+  },
+  {
+    id: "conant-house",
+    name: "Conant House",
+    aliases: ["Student Health Services", "Health Center", "Counseling"],
+    entrances: [[42.81503, -75.53898]],
+  },
+  {
+    id: "dana-arts-center",
+    name: "Dana Arts Center",
+    aliases: ["Dana", "Picker Art Gallery", "Brehmer Theater", "Art and Art History"],
+    entrances: [[42.81688, -75.53836]],
+  },
+  {
+    id: "drake-hall",
+    name: "Drake Hall",
+    aliases: ["Drake"],
+    entrances: [[42.81528, -75.53797]],
+  },
+  {
+    id: "frank-dining-hall",
+    name: "Frank Dining Hall",
+    aliases: ["Frank", "Dining hall", "Dining"],
+    entrances: [[42.81641, -75.53676]],
+  },
+  {
+    id: "hascall-hall",
+    name: "Hascall Hall",
+    aliases: ["Hascall", "Registrar"],
+    entrances: [[42.81932, -75.53895]],
+  },
+  {
+    id: "ho-science-center",
+    name: "Robert H.N. Ho Science Center",
+    aliases: ["Ho Science Center", "Ho", "Science center", "Visualization Lab"],
+    entrances: [
+      [42.81759, -75.53461],
+      [42.81785, -75.53418],
+    ],
+  },
+  {
+    id: "huntington-gymnasium",
+    name: "Huntington Gymnasium",
+    aliases: ["Huntington", "Gym"],
+    entrances: [[42.81558, -75.54048]],
+  },
+  {
+    id: "james-b-colgate-hall",
+    name: "James B. Colgate Hall",
+    aliases: ["JBC", "James B", "Office of the President", "Financial Aid"],
+    entrances: [
+      [42.81921, -75.53628],
+      [42.81898, -75.53661],
+    ],
+  },
+  {
+    id: "jane-pinchin-hall",
+    name: "Jane Pinchin Hall",
+    aliases: ["Pinchin"],
+    entrances: [[42.81578, -75.53533]],
+  },
+  {
+    id: "lathrop-hall",
+    name: "Lathrop Hall",
+    aliases: ["Lathrop", "Center for Learning, Teaching and Research"],
+    entrances: [[42.81883, -75.53731]],
+  },
+  {
+    id: "lawrence-hall",
+    name: "Lawrence Hall",
+    aliases: ["Lawrence"],
+    entrances: [[42.81797, -75.53661]],
+  },
+  {
+    id: "little-hall",
+    name: "Little Hall",
+    aliases: ["Little", "Clifford Gallery"],
+    entrances: [[42.81642, -75.53772]],
+  },
+  {
+    id: "mcgregory-hall",
+    name: "McGregory Hall",
+    aliases: ["McGregory"],
+    entrances: [[42.81848, -75.53598]],
+  },
+  {
+    id: "merrill-house",
+    name: "Merrill House",
+    aliases: ["Merrill"],
+    entrances: [[42.81956, -75.53358]],
+  },
+  {
+    id: "oconnor-campus-center",
+    name: "O'Connor Campus Center",
+    aliases: ["Coop", "The Coop", "Hall of Presidents", "Mail room", "Post office"],
+    entrances: [
+      [42.81712, -75.53352],
+      [42.81688, -75.53398],
+    ],
+  },
+  {
+    id: "olin-hall",
+    name: "Olin Hall",
+    aliases: ["Olin", "Biology", "Psychology"],
+    entrances: [[42.81822, -75.53328]],
+  },
+  {
+    id: "persson-hall",
+    name: "Persson Hall",
+    aliases: ["Persson", "Economics"],
+    entrances: [[42.81962, -75.53812]],
+  },
+  {
+    id: "reid-athletic-center",
+    name: "Reid Athletic Center",
+    aliases: ["Reid", "Cotterell Court", "Basketball"],
+    entrances: [
+      [42.81572, -75.54196],
+      [42.81498, -75.54233],
+    ],
+  },
+  {
+    id: "saperstein-jewish-center",
+    name: "Saperstein Jewish Center",
+    aliases: ["Saperstein", "Hillel"],
+    entrances: [[42.81811, -75.53172]],
+  },
+  {
+    id: "schupf-studio-arts-center",
+    name: "Paul J. Schupf Studio Arts Center",
+    aliases: ["Schupf", "Studio Arts", "Ryan Studio"],
+    entrances: [[42.82862, -75.54862]],
+  },
+  {
+    id: "trudy-fitness-center",
+    name: "Trudy Fitness Center",
+    aliases: ["Trudy", "Fitness center", "Lineberry Natatorium", "Pool"],
+    entrances: [[42.81427, -75.54101]],
+  },
+  {
+    id: "wynn-hall",
+    name: "Wynn Hall",
+    aliases: ["Wynn", "Chemistry"],
+    entrances: [[42.81793, -75.53512]],
+  },
+];
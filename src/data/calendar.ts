@@ -0,0 +1,54 @@
+/**
+ * Academic calendar overrides
+ * Source: none yet — the 2026–27 dates below are estimates and are marked
+ * `provisional` until they've been checked against the academic calendar
+ * published by the Office of the Registrar.
+ *
+ * Holidays, breaks and special events on which the normal weekday/weekend
+ * parking rules do not apply. Update each academic year, and drop
+ * `provisional` from an entry once its dates are confirmed.
+ */
+
+/**
+ * How parking rules change on an override day:
+ *   weekend  — treat the day as a weekend (holidays, university closures)
+ *   allOpen  — every non-restricted lot is open all day
+ *   employee — student lots follow employee-lot rules, so every lot is
+ *              reserved for employees during weekday business hours
+ */
+export type CalendarPolicy = "weekend" | "allOpen" | "employee";
+
+export interface CalendarOverride {
+  name: string;
+  /** First day, inclusive, as YYYY-MM-DD. */
+  start: string;
+  /** Last day, inclusive, as YYYY-MM-DD. */
+  end: string;
+  policy: CalendarPolicy;
+  /** Dates not yet confirmed against the published calendar; the banner says so. */
+  provisional?: boolean;
+}
+
+export const POLICY_DESCRIPTIONS: Record<CalendarPolicy, string> = {
+  weekend: "Weekend rules apply",
+  allOpen: "All lots open",
+  employee: "Employee rules apply",
+};
+
+/** Earlier entries take precedence where ranges overlap. */
+export const calendarOverrides: CalendarOverride[] = [
+  // ─── 2026–27 ─────────────────────────────────────────────────────
+  { name: "Thanksgiving Break", start: "2026-11-25", end: "2026-11-29", policy: "weekend", provisional: true },
+  { name: "University Holiday Closure", start: "2026-12-24", end: "2027-01-01", policy: "weekend", provisional: true },
+  { name: "Martin Luther King Jr. Day", start: "2027-01-18", end: "2027-01-18", policy: "weekend", provisional: true },
+  { name: "Winter Break", start: "2026-12-19", end: "2027-01-19", policy: "employee", provisional: true },
+  { name: "Spring Break", start: "2027-03-13", end: "2027-03-21", policy: "employee", provisional: true },
+  { name: "Commencement Weekend", start: "2027-05-15", end: "2027-05-16", policy: "allOpen", provisional: true },
+  { name: "Memorial Day", start: "2027-05-31", end: "2027-05-31", policy: "weekend", provisional: true },
+  { name: "Independence Day", start: "2027-07-05", end: "2027-07-05", policy: "weekend", provisional: true },
+];
+
+/** The override in effect on a YYYY-MM-DD date, if any. */
+export function getCalendarOverride(date: string): CalendarOverride | null {
+  return calendarOverrides.find((o) => date >= o.start && date <= o.end) ?? null;
+}
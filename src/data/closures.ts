@@ -0,0 +1,38 @@
+/**
+ * Temporary lot closures
+ * Source: Colgate Campus Safety / Parking Services announcements
+ *
+ * Special events, snow plowing and construction. A closure applies to the
+ * lots listed in `lotIds` and to any lot whose centroid falls inside
+ * `polygon`. Times are Eastern, as "YYYY-MM-DDTHH:MM"; entries stop applying
+ * once `end` has passed, so expired ones can be pruned at leisure. Add an
+ * entry when a closure is announced, e.g.
+ *
+ *   {
+ *     id: "football-2027-09-18",
+ *     reason: "Football game — reserved for event parking",
+ *     start: "2027-09-18T08:00",
+ *     end: "2027-09-18T18:00",
+ *     lotIds: ["197867", "197868"],
+ *   },
+ *   {
+ *     id: "reid-resurfacing-2027-06",
+ *     reason: "Construction — Reid lots being resurfaced",
+ *     start: "2027-06-07T06:00",
+ *     end: "2027-06-12T17:00",
+ *     polygon: [[42.8162, -75.5438], [42.8162, -75.5422], [42.814, -75.5422], [42.814, -75.5438]],
+ *   },
+ */
+
+export interface LotClosure {
+  id: string;
+  reason: string;
+  /** Inclusive start, Eastern time. */
+  start: string;
+  /** Exclusive end, Eastern time. */
+  end: string;
+  lotIds?: string[];
+  polygon?: [number, number][];
+}
+
+export const lotClosures: LotClosure[] = [];
@@ -0,0 +1,47 @@
+import { RuleSet } from "./rules";
+
+/**
+ * Campus-wide parking emergencies
+ * Source: Colgate Campus Safety snow emergency declarations
+ *
+ * While an emergency is in effect its rule set replaces the normal rules,
+ * and the lots in each clearance must be vacated by `deadline` so they can
+ * be plowed. Add an entry when an emergency is declared, e.g.
+ *
+ *   {
+ *     id: "snow-2027-01-12",
+ *     name: "Snow emergency",
+ *     start: "2027-01-12",
+ *     end: "2027-01-13",
+ *     rules: snowEmergencyRules,
+ *     clearances: [
+ *       { lotIds: ["197856", "197894"], deadline: "2027-01-12T22:00", reopens: "2027-01-13T07:00" },
+ *     ],
+ *   },
+ */
+
+export interface LotClearance {
+  lotIds: string[];
+  /** Cars must be gone by this Eastern time ("YYYY-MM-DDTHH:MM"). */
+  deadline: string;
+  /** The lot reopens once plowed, at this Eastern time. */
+  reopens: string;
+}
+
+export interface ParkingEmergency {
+  id: string;
+  name: string;
+  /** First day, inclusive, as YYYY-MM-DD. */
+  start: string;
+  /** Last day, inclusive, as YYYY-MM-DD. */
+  end: string;
+  rules: RuleSet;
+  clearances: LotClearance[];
+}
+
+export const parkingEmergencies: ParkingEmergency[] = [];
+
+/** The emergency in effect on a YYYY-MM-DD date, if any. */
+export function getEmergency(date: string): ParkingEmergency | null {
+  return parkingEmergencies.find((e) => date >= e.start && date <= e.end) ?? null;
+}
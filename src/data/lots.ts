@@ -61,7 +61,7 @@ export const parkingLots: ParkingLot[] = [
     category: "student",
     overnightExempt: true,
     lat: 42.817631,
-    lng: -75.542007,
+    lng: -75.541906,
     polygon: [
             [42.817546396998694, -75.54185673594475],
       [42.81754295386092, -75.54200895130631],
@@ -534,6 +534,7 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.816811,
     lng: -75.536392,
+    accessibleSpaces: [{ lat: 42.816927, lng: -75.536323 }],
     polygon: [
             [42.8170151808761, -75.53626835346223],
       [42.816767278457434, -75.53608596324922],
@@ -701,6 +702,10 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.818466,
     lng: -75.538513,
+    accessibleSpaces: [
+      { lat: 42.818505, lng: -75.538637, note: "Nearest the library entrance" },
+    ],
+    visitorSpaces: { passRequired: true },
     polygon: [
             [42.81853503707578, -75.5387359857556],
       [42.818718991245746, -75.53840875625612],
@@ -742,8 +747,10 @@ export const parkingLots: ParkingLot[] = [
     name: "Class of 1965 Arena",
     category: "student",
     overnightExempt: false,
-    lat: 42.817333,
-    lng: -75.543633,
+    lat: 42.816968,
+    lng: -75.543778,
+    accessibleSpaces: [{ lat: 42.817059, lng: -75.543792 }],
+    visitorSpaces: { passRequired: true },
     polygon: [
             [42.817119743179404, -75.5438013569616],
       [42.81705902106415, -75.54381403160632],
@@ -817,6 +824,7 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.817059,
     lng: -75.538857,
+    accessibleSpaces: [{ lat: 42.817094, lng: -75.538792 }],
     polygon: [
             [42.81710765215871, -75.53876012563707],
       [42.81711158710384, -75.53880840539934],
@@ -850,6 +858,7 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.81633,
     lng: -75.537148,
+    accessibleSpaces: [{ lat: 42.816347, lng: -75.53714 }],
     polygon: [
             [42.816267535640044, -75.53711056709291],
       [42.816330495587415, -75.53719639778137],
@@ -942,6 +951,10 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.815426,
     lng: -75.540901,
+    accessibleSpaces: [
+      { lat: 42.815392, lng: -75.540946 },
+      { lat: 42.815506, lng: -75.541312 },
+    ],
     polygon: [
             [42.81554349163787, -75.54143428802492],
       [42.81551201127158, -75.541453063488],
@@ -977,6 +990,8 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.819656,
     lng: -75.535973,
+    accessibleSpaces: [{ lat: 42.819744, lng: -75.535941 }],
+    visitorSpaces: { passRequired: false, note: "Admission visitor spaces — 2-hour limit" },
     polygon: [
             [42.81984139494327, -75.53593039512636],
       [42.8195344820208, -75.53580433130274],
@@ -1137,7 +1152,8 @@ export const parkingLots: ParkingLot[] = [
             [42.82752454216039, -75.54449737071992],
       [42.8273907764169, -75.54449200630188],
       [42.827367170667394, -75.54468512535097],
-      [42.82750093646198, -75.54472267627717]
+      [42.82750093646198, -75.54472267627717],
+      [42.82752454216039, -75.54449737071992]
     ],
   },
   {
@@ -1265,6 +1281,7 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.818394,
     lng: -75.532784,
+    accessibleSpaces: [{ lat: 42.818412, lng: -75.532697 }],
     polygon: [
             [42.818412331272334, -75.53265198059104],
       [42.81849474997972, -75.5327136126584],
@@ -1325,6 +1342,7 @@ export const parkingLots: ParkingLot[] = [
     overnightExempt: false,
     lat: 42.816006,
     lng: -75.542572,
+    accessibleSpaces: [{ lat: 42.816064, lng: -75.542912 }],
     polygon: [
             [42.81600600000124, -75.54306616712665],
       [42.816110691613034, -75.54304502324754],
@@ -0,0 +1,24 @@
+import counted from "./occupancy.json";
+import sample from "./occupancy.sample.json";
+
+/**
+ * Typical occupancy by lot, weekday and time slot. `lots[lotId][day][slot]`
+ * is the average number of occupied spaces, or null where nobody has counted.
+ * Days are 0=Sun … 6=Sat; slots are `slotMinutes` long starting at midnight.
+ *
+ * Regenerate occupancy.json from hand counts with scripts/import-occupancy.mjs.
+ * occupancy.sample.json holds made-up counts; it stands in only in
+ * development, and only until real counts are imported.
+ */
+export interface OccupancyData {
+  version: number;
+  generatedAt: string;
+  source: string;
+  slotMinutes: number;
+  lots: Record<string, Record<string, (number | null)[]>>;
+}
+
+export const occupancyData: OccupancyData =
+  process.env.NODE_ENV === "development" && Object.keys(counted.lots).length === 0
+    ? sample
+    : counted;
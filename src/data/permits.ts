@@ -0,0 +1,20 @@
+import { PermitType } from "@/types";
+
+export const PERMIT_OPTIONS: { value: PermitType; label: string }[] = [
+  { value: "student", label: "Student" },
+  { value: "commuter", label: "Commuter student" },
+  { value: "employee", label: "Employee" },
+  { value: "visitor", label: "Visitor" },
+  { value: "accessible", label: "Accessible placard" },
+];
+
+/** Assumed until the viewer picks a permit — matches the map's original student view. */
+export const DEFAULT_PERMIT: PermitType = "student";
+
+export function permitLabel(permit: PermitType): string {
+  return PERMIT_OPTIONS.find((o) => o.value === permit)?.label ?? permit;
+}
+
+export function isPermitType(value: unknown): value is PermitType {
+  return PERMIT_OPTIONS.some((o) => o.value === value);
+}
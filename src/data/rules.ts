@@ -1,3 +1,5 @@
+import { LotCategory, PermitType } from "@/types";
+
 // All times in minutes from midnight, Eastern Time
 
 /** Overnight restriction starts */
@@ -14,3 +16,274 @@ export const OPEN_END = 24 * 60 + 3 * 60; // 3:00 AM next day (treated as 27:00
 
 /** Minutes before a transition to show yellow/orange */
 export const TRANSITION_WINDOW = 30;
+
+const END_OF_DAY = 24 * 60;
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const WEEKEND_DAYS = [0, 6];
+
+/** Which lots a rule applies to. Omitted fields match any lot. */
+export interface LotMatcher {
+  categories?: LotCategory[];
+  overnightExempt?: boolean;
+  /** Matches against `visitorSpaces.passRequired` (visitor lots without details require a pass). */
+  passRequired?: boolean;
+}
+
+/**
+ * Whether a lot may be parked in while a rule is in effect, and how to
+ * describe it. Within a period the first matching rule wins.
+ */
+export interface AccessRule {
+  match?: LotMatcher;
+  /** Open to everyone, permit or not. */
+  open: boolean;
+  /** Permits that may park here even when the lot isn't open to everyone. */
+  permits?: PermitType[];
+  label: string;
+  reason: string;
+  /**
+   * Lead-ins for the countdown shown when this rule is about to take effect,
+   * depending on whether it opens or closes the lot to the viewer, e.g.
+   * "Opens to all" → "Opens to all at 4:30 PM (20 min)".
+   * Default to "Opens" / "Closes".
+   */
+  notices?: { opening?: string; closing?: string };
+}
+
+/** A span of a single calendar day. `end` is exclusive and at most 24:00. */
+export interface TimeWindow {
+  /** Days as numbers: 0=Sun … 6=Sat */
+  days: number[];
+  start: number;
+  end: number;
+}
+
+export interface ParkingPeriod {
+  id: string;
+  /** Shown in the clock panel while the period is active. */
+  label: string;
+  /** Shown as the upcoming transition when the period is about to begin. */
+  startLabel: string;
+  windows: TimeWindow[];
+  access: AccessRule[];
+}
+
+/**
+ * A complete policy. `standing` rules apply at all times and are checked
+ * before the active period's rules. Period windows must cover the whole week.
+ */
+export interface RuleSet {
+  standing: AccessRule[];
+  periods: ParkingPeriod[];
+}
+
+/**
+ * Visitor lots (and the visitor spaces inside other lots) during business
+ * hours. Outside business hours visitors park like anyone else, no pass needed.
+ */
+const VISITOR_BUSINESS_RULES: AccessRule[] = [
+  {
+    match: { categories: ["visitor"], passRequired: false },
+    open: false,
+    permits: ["visitor"],
+    label: "Visitors only",
+    reason: "Visitor spaces — no pass needed",
+    notices: { closing: "Visitors only from" },
+  },
+  {
+    match: { categories: ["visitor"] },
+    open: false,
+    permits: ["visitor"],
+    label: "Visitors only",
+    reason: "Visitor spaces — daily visitor pass required",
+    notices: { closing: "Visitors only from" },
+  },
+];
+
+/** Used when no rule matches a lot. */
+export const FALLBACK_RULE: AccessRule = {
+  open: false,
+  label: "Closed",
+  reason: "No parking rule applies",
+};
+
+export const defaultRules: RuleSet = {
+  standing: [
+    {
+      match: { categories: ["restricted"] },
+      open: false,
+      permits: ["accessible"],
+      label: "Accessible only",
+      reason: "Accessible parking only",
+    },
+  ],
+  periods: [
+    {
+      id: "overnight",
+      label: "Overnight (3-7 AM)",
+      startLabel: "Overnight restriction",
+      windows: [{ days: ALL_DAYS, start: OVERNIGHT_START, end: BUSINESS_START }],
+      access: [
+        {
+          match: { overnightExempt: true },
+          open: true,
+          label: "Open to all",
+          reason: "Overnight exempt — parking allowed 24/7",
+        },
+        {
+          open: false,
+          label: "Overnight closed",
+          reason: "Overnight restriction (3–7 AM) — no parking",
+          notices: { closing: "Overnight restriction" },
+        },
+      ],
+    },
+    {
+      id: "business",
+      label: "Business hours (7 AM-4:30 PM)",
+      startLabel: "Business hours start",
+      windows: [{ days: WEEKDAYS, start: BUSINESS_START, end: OPEN_START }],
+      access: [
+        {
+          match: { categories: ["student"] },
+          open: false,
+          permits: ["student", "commuter"],
+          label: "Students only",
+          reason: "Student lot — open to students during business hours",
+          notices: { closing: "Student lot — closes" },
+        },
+        {
+          match: { categories: ["employee"] },
+          open: false,
+          permits: ["employee"],
+          label: "Employees only",
+          reason: "Employee lot — opens to all at 4:30 PM",
+          notices: { closing: "Employee lot — closes" },
+        },
+        ...VISITOR_BUSINESS_RULES,
+      ],
+    },
+    {
+      id: "open",
+      label: "Open hours (4:30 PM-3 AM)",
+      startLabel: "Open hours start",
+      windows: [
+        { days: WEEKDAYS, start: OPEN_START, end: END_OF_DAY },
+        // Weekday small hours, before the overnight restriction begins
+        { days: WEEKDAYS, start: 0, end: OVERNIGHT_START },
+      ],
+      access: [
+        {
+          match: { categories: ["student"] },
+          open: true,
+          label: "Students only",
+          reason: "Student lot — always open",
+        },
+        {
+          open: true,
+          label: "Open to all",
+          reason: "Open hours — all lots open",
+          notices: { opening: "Opens to all" },
+        },
+      ],
+    },
+    {
+      id: "weekend",
+      label: "Weekend — All lots open",
+      startLabel: "All lots open",
+      windows: [
+        { days: WEEKEND_DAYS, start: 0, end: OVERNIGHT_START },
+        { days: WEEKEND_DAYS, start: BUSINESS_START, end: END_OF_DAY },
+      ],
+      access: [
+        {
+          open: true,
+          label: "Open to all",
+          reason: "Weekend — all lots open",
+        },
+      ],
+    },
+  ],
+};
+
+/** Used on calendar days where every non-restricted lot is open around the clock. */
+export const allOpenRules: RuleSet = {
+  standing: defaultRules.standing,
+  periods: [
+    {
+      id: "allOpen",
+      label: "Special schedule — All lots open",
+      startLabel: "All lots open",
+      windows: [{ days: ALL_DAYS, start: 0, end: END_OF_DAY }],
+      access: [
+        {
+          open: true,
+          label: "Open to all",
+          reason: "Special schedule — all lots open",
+        },
+      ],
+    },
+  ],
+};
+
+/** Used on calendar days where student lots follow employee-lot rules. */
+export const employeeRules: RuleSet = {
+  standing: defaultRules.standing,
+  periods: defaultRules.periods.map((period) =>
+    period.id === "business"
+      ? {
+          ...period,
+          access: [
+            ...VISITOR_BUSINESS_RULES,
+            {
+              open: false,
+              permits: ["employee"],
+              label: "Employees only",
+              reason: "Employee rules in effect — opens to all at 4:30 PM",
+              notices: { closing: "Employee rules — closes" },
+            },
+          ],
+        }
+      : period,
+  ),
+};
+
+/**
+ * Used during a declared snow emergency: the overnight restriction starts at
+ * midnight instead of 3 AM so plows can clear lots.
+ */
+export const snowEmergencyRules: RuleSet = {
+  standing: defaultRules.standing,
+  periods: [
+    {
+      id: "snowOvernight",
+      label: "Snow emergency overnight (12-7 AM)",
+      startLabel: "Snow emergency overnight restriction",
+      windows: [{ days: ALL_DAYS, start: 0, end: BUSINESS_START }],
+      access: [
+        {
+          match: { overnightExempt: true },
+          open: true,
+          label: "Open to all",
+          reason: "Overnight exempt — parking allowed 24/7",
+        },
+        {
+          open: false,
+          label: "Snow emergency",
+          reason: "Snow emergency — no overnight parking (12–7 AM)",
+          notices: { closing: "Snow emergency restriction" },
+        },
+      ],
+    },
+    // Daytime rules are unchanged; their small-hours windows fall under the
+    // extended overnight restriction above.
+    ...defaultRules.periods
+      .filter((period) => period.id !== "overnight")
+      .map((period) => ({
+        ...period,
+        windows: period.windows.filter((w) => w.start >= BUSINESS_START),
+      })),
+  ],
+};
@@ -1,185 +1,106 @@
-import { ParkingLot, LotStatus } from "@/types";
+import { ParkingLot, LotCategory, LotStatus, PermitType } from "@/types";
 import {
-  OVERNIGHT_START,
-  BUSINESS_START,
-  OPEN_START,
+  defaultRules,
+  allOpenRules,
+  employeeRules,
   TRANSITION_WINDOW,
 } from "@/data/rules";
-import { EasternTime, isWeekend } from "./time-utils";
-
-type Period = "overnight" | "business" | "open";
-
-function getCurrentPeriod(mins: number): Period {
-  if (mins < OVERNIGHT_START || mins >= OVERNIGHT_START + 24 * 60) {
-    // Before 3 AM wraps: treat as open hours extending from previous day
-    return "open";
+import { getCalendarOverride } from "@/data/calendar";
+import { getEmergency } from "@/data/emergencies";
+import { EasternTime, formatStamp } from "./time-utils";
+import {
+  DayPolicy,
+  cursorAt,
+  evaluateLot,
+  isOpenFor,
+  resolveAccess,
+  resolvePeriod,
+} from "./rule-engine";
+import { getActiveClosure, getUpcomingClosure } from "./closures";
+
+/** Saturday — the weekday a "treat as weekend" day is read as. */
+const WEEKEND_DAY = 6;
+
+function calendarPolicy(date: string, day: number): DayPolicy {
+  const override = getCalendarOverride(date);
+  switch (override?.policy) {
+    case "weekend":
+      return { rules: defaultRules, day: WEEKEND_DAY };
+    case "allOpen":
+      return { rules: allOpenRules, day };
+    case "employee":
+      return { rules: employeeRules, day };
+    default:
+      return { rules: defaultRules, day };
   }
-  if (mins >= OVERNIGHT_START && mins < BUSINESS_START) return "overnight";
-  if (mins >= BUSINESS_START && mins < OPEN_START) return "business";
-  return "open";
 }
 
-export function getPeriodLabel(mins: number, weekend: boolean): string {
-  if (weekend) {
-    const period = getCurrentPeriod(mins);
-    if (period === "overnight") return "Overnight (3-7 AM)";
-    return "Weekend — All lots open";
-  }
-  const period = getCurrentPeriod(mins);
-  switch (period) {
-    case "overnight":
-      return "Overnight (3-7 AM)";
-    case "business":
-      return "Business hours (7 AM-4:30 PM)";
-    case "open":
-      return "Open hours (4:30 PM-3 AM)";
-  }
+/**
+ * Rules for a date, applying any academic calendar override. A declared
+ * emergency replaces the rule set but keeps the calendar's reading of the day.
+ */
+export function resolveDay(date: string, day: number): DayPolicy {
+  const policy = calendarPolicy(date, day);
+  const emergency = getEmergency(date);
+  return emergency ? { rules: emergency.rules, day: policy.day } : policy;
 }
 
-function minutesUntil(current: number, target: number): number {
-  if (target > current) return target - current;
-  return target + 24 * 60 - current; // wrap around midnight
+export function getPeriodLabel(et: EasternTime): string {
+  const period = resolvePeriod(cursorAt(et), resolveDay);
+  return period?.label ?? "No parking rules in effect";
 }
 
-export function getLotStatus(lot: ParkingLot, et: EasternTime): LotStatus {
-  const { minutesSinceMidnight: mins, dayOfWeek } = et;
-  const weekend = isWeekend(dayOfWeek);
-
-  // Restricted lots are never available
-  if (lot.category === "restricted") {
-    return {
-      color: "red",
-      label: "Restricted",
-      reason: "Accessible parking only",
-    };
-  }
-
-  const period = getCurrentPeriod(mins);
-
-  // --- Overnight period (3:00 AM - 7:00 AM) ---
-  if (period === "overnight") {
-    const minsUntilBusinessStart = minutesUntil(mins, BUSINESS_START);
-
-    if (lot.overnightExempt) {
-      // Exempt lots stay available through overnight
-      if (minsUntilBusinessStart <= TRANSITION_WINDOW) {
-        // If employee lot, it's about to become unavailable at business hours
-        if (lot.category === "employee" && !weekend) {
-          return {
-            color: "orange",
-            label: "Closing soon",
-            reason: `Employee lot — closes at 7:00 AM (${minsUntilBusinessStart} min)`,
-          };
-        }
-      }
-      return {
-        color: "green",
-        label: "Open to all",
-        reason: "Overnight exempt — parking allowed 24/7",
-      };
-    }
+/** Spaces inside a lot reserved for a permit, and the category they're evaluated as. */
+function reservedSpaces(lot: ParkingLot, permit: PermitType | null): LotCategory | null {
+  if (permit === "visitor" && lot.visitorSpaces) return "visitor";
+  if (permit === "accessible" && lot.accessibleSpaces?.length) return "restricted";
+  return null;
+}
 
-    // Non-exempt lots during overnight
-    if (minsUntilBusinessStart <= TRANSITION_WINDOW) {
-      // About to exit overnight restriction
-      if (lot.category === "student" || weekend) {
-        return {
-          color: "yellow",
-          label: "Opening soon",
-          reason: `Opens at 7:00 AM (${minsUntilBusinessStart} min)`,
-        };
-      }
-      // Employee lots on weekday: business hours still restricted
-      if (lot.category === "employee") {
-        return {
-          color: "red",
-          label: "Employees only",
-          reason: "Employee lot — opens to all at 4:30 PM",
-        };
-      }
-    }
+/**
+ * The lot a viewer would actually park in: visitors and placard holders fall
+ * back to the spaces reserved for them, evaluated as a visitor or restricted
+ * lot, when the lot as a whole isn't open to them.
+ */
+export function lotForViewer(
+  lot: ParkingLot,
+  et: EasternTime,
+  permit: PermitType | null,
+): ParkingLot {
+  const category = reservedSpaces(lot, permit);
+  if (!category || lot.category === category) return lot;
+  if (isOpenFor(resolveAccess(lot, cursorAt(et), resolveDay), permit)) return lot;
+  return { ...lot, category };
+}
 
+/** A lot's status from the point of view of a permit holder. */
+export function getLotStatus(
+  lot: ParkingLot,
+  et: EasternTime,
+  permit: PermitType | null,
+): LotStatus {
+  // Temporary closures override whatever the rules say
+  const closure = getActiveClosure(lot, et);
+  if (closure) {
     return {
-      color: "red",
-      label: "Overnight closed",
-      reason: "Overnight restriction (3–7 AM) — no parking",
+      color: "gray",
+      label: "Temporarily closed",
+      reason: `${closure.reason} — reopens ${formatStamp(closure.end, et.date)}`,
     };
   }
 
-  // --- Weekend (non-overnight) ---
-  if (weekend) {
-    // All non-restricted lots are available on weekends outside overnight
-    const minsUntilOvernight = minutesUntil(mins, OVERNIGHT_START);
-    if (
-      minsUntilOvernight <= TRANSITION_WINDOW &&
-      !lot.overnightExempt &&
-      mins >= BUSINESS_START
-    ) {
+  const status = evaluateLot(lotForViewer(lot, et, permit), et, resolveDay, permit);
+
+  if (status.color === "green" || status.color === "orange") {
+    const upcoming = getUpcomingClosure(lot, et, TRANSITION_WINDOW);
+    if (upcoming) {
       return {
         color: "orange",
         label: "Closing soon",
-        reason: `Overnight restriction at 3:00 AM (${minsUntilOvernight} min)`,
+        reason: `${upcoming.closure.reason} — closes at ${formatStamp(upcoming.closure.start, et.date)} (${upcoming.minutesUntil} min)`,
       };
     }
-    return {
-      color: "green",
-      label: "Open to all",
-      reason: "Weekend — all lots open",
-    };
-  }
-
-  // --- Weekday business hours (7:00 AM - 4:30 PM) ---
-  if (period === "business") {
-    const minsUntilOpen = minutesUntil(mins, OPEN_START);
-
-    if (lot.category === "student") {
-      // Student lots are available during business hours
-      return {
-        color: "green",
-        label: "Students only",
-        reason: "Student lot — open during business hours",
-      };
-    }
-
-    // Employee lots not available during business hours
-    if (minsUntilOpen <= TRANSITION_WINDOW) {
-      return {
-        color: "yellow",
-        label: "Opening soon",
-        reason: `Opens to all at 4:30 PM (${minsUntilOpen} min)`,
-      };
-    }
-
-    return {
-      color: "red",
-      label: "Employees only",
-      reason: "Employee lot — opens to all at 4:30 PM",
-    };
-  }
-
-  // --- Weekday open hours (4:30 PM - 3:00 AM) ---
-  const minsUntilOvernight = minutesUntil(mins, OVERNIGHT_START);
-
-  if (lot.category === "student") {
-    return {
-      color: "green",
-      label: "Students only",
-      reason: "Student lot — always open",
-    };
-  }
-
-  // Employee lots available during open hours
-  if (!lot.overnightExempt && minsUntilOvernight <= TRANSITION_WINDOW) {
-    return {
-      color: "orange",
-      label: "Closing soon",
-      reason: `Overnight restriction at 3:00 AM (${minsUntilOvernight} min)`,
-    };
   }
 
-  return {
-    color: "green",
-    label: "Open to all",
-    reason: "Open hours — all lots open",
-  };
+  return status;
 }
@@ -0,0 +1,72 @@
+import { ParkingLot, LotStatus, PermitType } from "@/types";
+import { EasternTime } from "./time-utils";
+import { lotForViewer } from "./availability";
+
+/** Counts that haven't been collected yet are null. */
+export interface SpaceBreakdown {
+  total: number | null;
+  accessible: number | null;
+  ev: number | null;
+  visitor: number | null;
+}
+
+export function hasAccessibleSpaces(lot: ParkingLot): boolean {
+  return (lot.accessibleSpaces?.length ?? 0) > 0;
+}
+
+/** Total accessible stalls in a lot, or null if any group hasn't been counted. */
+export function accessibleSpaceCount(lot: ParkingLot): number | null {
+  let total = 0;
+  for (const space of lot.accessibleSpaces ?? []) {
+    if (space.count == null) return null;
+    total += space.count;
+  }
+  return total;
+}
+
+export function getSpaceBreakdown(lot: ParkingLot): SpaceBreakdown {
+  return {
+    total: lot.capacity ?? null,
+    accessible: accessibleSpaceCount(lot),
+    ev: lot.evSpaces ?? null,
+    visitor: lot.visitorSpaces?.count ?? null,
+  };
+}
+
+/** e.g. "58 spaces · 4 accessible · 4 EV · 6 visitor"; null when nothing has been counted. */
+export function formatSpaceBreakdown(b: SpaceBreakdown): string | null {
+  const parts: string[] = [];
+  if (b.total != null) parts.push(`${b.total} spaces`);
+  if (b.accessible) parts.push(`${b.accessible} accessible`);
+  if (b.ev) parts.push(`${b.ev} EV`);
+  if (b.visitor) parts.push(`${b.visitor} visitor`);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+/**
+ * Spaces in a lot the viewer may park in right now, or null if the spaces
+ * that count haven't been counted. Visitors and placard holders using a
+ * lot's reserved spaces only count those spaces.
+ */
+export function spacesOpenTo(
+  lot: ParkingLot,
+  status: LotStatus,
+  et: EasternTime,
+  permit: PermitType | null,
+): number | null {
+  if (status.color !== "green" && status.color !== "orange") return 0;
+  const parked = lotForViewer(lot, et, permit);
+  if (parked.category === lot.category) return lot.capacity ?? null;
+  return parked.category === "visitor"
+    ? lot.visitorSpaces?.count ?? null
+    : accessibleSpaceCount(lot);
+}
+
+/**
+ * Distance used to rank lots in Near Me mode. Dividing by the log of the
+ * capacity means a 6-space driveway has to be about twice as close as a
+ * 100-space lot to rank above it. Lots of unknown size get no discount.
+ */
+export function weightedDistance(distanceKm: number, lot: ParkingLot): number {
+  return lot.capacity == null ? distanceKm : distanceKm / Math.log2(lot.capacity + 2);
+}
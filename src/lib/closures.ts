@@ -0,0 +1,57 @@
+import { ParkingLot } from "@/types";
+import { LotClosure, lotClosures } from "@/data/closures";
+import { parkingEmergencies } from "@/data/emergencies";
+import { EasternTime, minutesBetween, toStamp } from "./time-utils";
+import { pointInPolygon } from "./geometry";
+
+/** Scheduled closures plus the plowing clearances of declared emergencies. */
+const closures: LotClosure[] = [
+  ...lotClosures,
+  ...parkingEmergencies.flatMap((e) =>
+    e.clearances.map((c, i) => ({
+      id: `${e.id}-clearance-${i}`,
+      reason: `${e.name} — lot must be cleared for plowing`,
+      start: c.deadline,
+      end: c.reopens,
+      lotIds: c.lotIds,
+    })),
+  ),
+];
+
+export function closureApplies(closure: LotClosure, lot: ParkingLot): boolean {
+  if (closure.lotIds?.includes(lot.id)) return true;
+  if (closure.polygon) return pointInPolygon([lot.lat, lot.lng], closure.polygon);
+  return false;
+}
+
+/** Every closure, past or future, that applies to a lot. */
+export function getClosuresFor(lot: ParkingLot): LotClosure[] {
+  return closures.filter((c) => closureApplies(c, lot));
+}
+
+/** The closure in effect for a lot at the given time, if any. */
+export function getActiveClosure(lot: ParkingLot, et: EasternTime): LotClosure | null {
+  const now = toStamp(et.date, et.minutesSinceMidnight);
+  return (
+    closures.find(
+      (c) => c.start <= now && now < c.end && closureApplies(c, lot),
+    ) ?? null
+  );
+}
+
+/** The next closure starting within `within` minutes for a lot, if any. */
+export function getUpcomingClosure(
+  lot: ParkingLot,
+  et: EasternTime,
+  within: number,
+): { closure: LotClosure; minutesUntil: number } | null {
+  const now = toStamp(et.date, et.minutesSinceMidnight);
+  let best: { closure: LotClosure; minutesUntil: number } | null = null;
+  for (const c of closures) {
+    if (c.start <= now || !closureApplies(c, lot)) continue;
+    const minutesUntil = minutesBetween(now, c.start);
+    if (minutesUntil > within) continue;
+    if (!best || minutesUntil < best.minutesUntil) best = { closure: c, minutesUntil };
+  }
+  return best;
+}
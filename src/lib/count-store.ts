@@ -0,0 +1,86 @@
+import { CountReading, LiveCount } from "@/types";
+import { parkingLots } from "@/data/lots";
+import { createJsonStore, envMinutes } from "./json-store";
+
+/** History older than this is dropped from the store. */
+const RETENTION_MINUTES = envMinutes("COUNT_RETENTION_MINUTES", 7 * 24 * 60);
+
+/** A lot's latest reading stops being shown as live after this long. */
+const LIVE_MINUTES = envMinutes("COUNT_LIVE_MINUTES", 30);
+
+/** History keeps one reading per lot per slot of this length. */
+const HISTORY_SLOT_MINUTES = 15;
+
+/** Oldest history is dropped past this many readings: a week of slots for every lot, with room to spare. */
+const HISTORY_LIMIT = 50_000;
+
+/** The newest reading per lot — all that GET needs, so it stays small however often counters post. */
+const latestStore = createJsonStore<CountReading>("COUNT_STORE_PATH", "gate-counts.json");
+
+/** Downsampled readings kept for building occupancy profiles later. */
+const historyStore = createJsonStore<CountReading>("COUNT_HISTORY_PATH", "gate-count-history.json");
+
+function slot(at: number): number {
+  return Math.floor(at / (HISTORY_SLOT_MINUTES * 60_000));
+}
+
+/**
+ * Record readings. Each lot's newest reading replaces its previous one; the
+ * history file is only rewritten when a reading falls in a slot that lot
+ * doesn't have yet.
+ */
+export function addReadings(readings: CountReading[], now: number = Date.now()): Promise<void> {
+  return latestStore.locked(async () => {
+    const latest = new Map<string, CountReading>();
+    for (const r of await latestStore.load()) {
+      const prev = latest.get(r.lotId);
+      if (!prev || r.at > prev.at) latest.set(r.lotId, r);
+    }
+
+    const cutoff = now - RETENTION_MINUTES * 60_000;
+    const newSlots: CountReading[] = [];
+    for (const r of readings) {
+      if (r.at < cutoff) continue;
+      const prev = latest.get(r.lotId);
+      if (!prev || slot(r.at) !== slot(prev.at)) newSlots.push(r);
+      if (!prev || r.at > prev.at) latest.set(r.lotId, r);
+    }
+    await latestStore.save([...latest.values()]);
+
+    if (newSlots.length === 0) return;
+    const history = (await historyStore.load()).filter((r) => r.at >= cutoff);
+    const seen = new Set(history.map((r) => `${r.lotId}:${slot(r.at)}`));
+    for (const r of newSlots) {
+      const key = `${r.lotId}:${slot(r.at)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      history.push(r);
+    }
+    history.sort((a, b) => a.at - b.at);
+    await historyStore.save(history.slice(-HISTORY_LIMIT));
+  });
+}
+
+/** The newest reading for each lot counted within the live window. */
+export async function getLiveCounts(now: number = Date.now()): Promise<Record<string, LiveCount>> {
+  const cutoff = now - LIVE_MINUTES * 60_000;
+  const latest = new Map<string, CountReading>();
+  for (const r of await latestStore.load()) {
+    if (r.at < cutoff) continue;
+    const prev = latest.get(r.lotId);
+    if (!prev || r.at > prev.at) latest.set(r.lotId, r);
+  }
+
+  const result: Record<string, LiveCount> = {};
+  for (const lot of parkingLots) {
+    const r = latest.get(lot.id);
+    if (!r) continue;
+    result[lot.id] = {
+      occupied: r.occupied,
+      free: lot.capacity == null ? null : Math.max(0, lot.capacity - r.occupied),
+      capacity: lot.capacity ?? null,
+      at: r.at,
+    };
+  }
+  return result;
+}
@@ -0,0 +1,97 @@
+import { LotStatus, ParkingLot } from "@/types";
+import { CampusBuilding, campusBuildings } from "@/data/buildings";
+import { distanceKm } from "./geometry";
+
+/** Paths bend around buildings and up the hill; straight lines undersell the walk. */
+const WALK_DETOUR = 1.3;
+
+/** Metres per minute, about 3 mph. */
+const WALK_SPEED = 80;
+
+/** How many of the closest lots are highlighted as top choices. */
+export const TOP_CHOICES = 3;
+
+/** Top choices' badges in the list, outlines on the map and the destination's entrances. */
+export const RECOMMENDED_PURPLE = "#7c3aed";
+
+const MAX_MATCHES = 6;
+
+export interface LotRecommendation {
+  lot: ParkingLot;
+  /** Estimated walking distance to the nearest entrance, in km. */
+  walkKm: number;
+  /** Closed now but opening soon; ranked after every lot that's open. */
+  opensSoon: boolean;
+}
+
+export function getBuilding(id: string): CampusBuilding | undefined {
+  return campusBuildings.find((b) => b.id === id);
+}
+
+/**
+ * Buildings whose name or an alias matches `query`. Exact matches rank first,
+ * then matches at the start of a word, then inside one; names beat aliases.
+ */
+export function searchBuildings(query: string): CampusBuilding[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  const score = (text: string): number => {
+    const t = text.toLowerCase();
+    if (t === q) return 0;
+    if (t.startsWith(q)) return 1;
+    if (t.includes(` ${q}`) || t.includes(`-${q}`)) return 2;
+    return t.includes(q) ? 3 : Infinity;
+  };
+  return campusBuildings
+    .map((b) => ({
+      b,
+      score: Math.min(score(b.name), ...b.aliases.map((a) => score(a) + 0.5)),
+    }))
+    .filter((m) => m.score < Infinity)
+    .sort((x, y) => x.score - y.score || x.b.name.localeCompare(y.b.name))
+    .slice(0, MAX_MATCHES)
+    .map((m) => m.b);
+}
+
+/**
+ * Estimated walk from a lot to the nearest entrance of a building: the
+ * shortest straight line from any corner of the lot (or its center), padded
+ * for real paths.
+ */
+export function walkingDistanceKm(lot: ParkingLot, building: CampusBuilding): number {
+  const points: [number, number][] = [[lot.lat, lot.lng], ...lot.polygon];
+  let best = Infinity;
+  for (const [lat, lng] of points) {
+    for (const [eLat, eLng] of building.entrances) {
+      best = Math.min(best, distanceKm(lat, lng, eLat, eLng));
+    }
+  }
+  return best * WALK_DETOUR;
+}
+
+/** e.g. "4 min walk". */
+export function formatWalk(km: number): string {
+  return `${Math.max(1, Math.round((km * 1000) / WALK_SPEED))} min walk`;
+}
+
+/**
+ * Lots the viewer can park in now (green, or orange if closing soon), closest
+ * walk to `building` first, followed by lots opening soon (yellow).
+ */
+export function recommendLots(
+  lots: ParkingLot[],
+  statuses: Map<string, LotStatus>,
+  building: CampusBuilding,
+): LotRecommendation[] {
+  return lots
+    .filter((lot) => {
+      const color = statuses.get(lot.id)?.color;
+      return color === "green" || color === "orange" || color === "yellow";
+    })
+    .map((lot) => ({
+      lot,
+      walkKm: walkingDistanceKm(lot, building),
+      opensSoon: statuses.get(lot.id)?.color === "yellow",
+    }))
+    .sort((a, b) => Number(a.opensSoon) - Number(b.opensSoon) || a.walkKm - b.walkKm);
+}
@@ -0,0 +1,33 @@
+import { ParkingLot } from "@/types";
+import { parkingLots } from "@/data/lots";
+import { ParkingEmergency, getEmergency } from "@/data/emergencies";
+import { EasternTime, minutesBetween, toStamp } from "./time-utils";
+
+export interface ClearanceCountdown {
+  lots: ParkingLot[];
+  deadline: string;
+  reopens: string;
+  /** Minutes until the deadline; zero or less once the lots are closed for plowing. */
+  minutesUntil: number;
+}
+
+export function getActiveEmergency(et: EasternTime): ParkingEmergency | null {
+  return getEmergency(et.date);
+}
+
+/** Lots that must be (or have been) cleared, soonest deadline first. Reopened lots are dropped. */
+export function getClearanceCountdowns(
+  emergency: ParkingEmergency,
+  et: EasternTime,
+): ClearanceCountdown[] {
+  const now = toStamp(et.date, et.minutesSinceMidnight);
+  return emergency.clearances
+    .filter((c) => c.reopens > now)
+    .map((c) => ({
+      lots: parkingLots.filter((lot) => c.lotIds.includes(lot.id)),
+      deadline: c.deadline,
+      reopens: c.reopens,
+      minutesUntil: minutesBetween(now, c.deadline),
+    }))
+    .sort((a, b) => a.minutesUntil - b.minutesUntil);
+}
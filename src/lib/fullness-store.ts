@@ -0,0 +1,83 @@
+import { createHash } from "crypto";
+import { FullnessLevel, FullnessReport, LotFullness } from "@/types";
+import { FullnessWindow, aggregateFullness } from "./fullness";
+import { createJsonStore, envMinutes } from "./json-store";
+
+export const FULLNESS_WINDOW: FullnessWindow = {
+  expiryMinutes: envMinutes("FULLNESS_REPORT_EXPIRY_MINUTES", 90),
+  halfLifeMinutes: envMinutes("FULLNESS_HALF_LIFE_MINUTES", 20),
+};
+
+/** Each client may file this many reports per rate-limit window. */
+const RATE_LIMIT_REPORTS = 5;
+const RATE_LIMIT_MINUTES = envMinutes("FULLNESS_RATE_LIMIT_MINUTES", 10);
+
+/** A report as stored, tagged with a hash of who sent it for rate limiting. */
+interface StoredReport extends FullnessReport {
+  client: string;
+}
+
+export type AddReportResult =
+  | { ok: true; fullness: LotFullness | null }
+  | { ok: false; retryAfterSeconds: number };
+
+const store = createJsonStore<StoredReport>("FULLNESS_STORE_PATH", "fullness-reports.json");
+
+function unexpired(reports: StoredReport[], now: number): StoredReport[] {
+  const cutoff = now - FULLNESS_WINDOW.expiryMinutes * 60_000;
+  return reports.filter((r) => r.reportedAt >= cutoff);
+}
+
+/** Hash the client identifier so raw IP addresses never reach disk. */
+export function clientKey(id: string): string {
+  return createHash("sha256").update(id).digest("hex").slice(0, 16);
+}
+
+/** Current fullness of every lot with unexpired reports. */
+export async function getAllFullness(now: number = Date.now()): Promise<Record<string, LotFullness>> {
+  const byLot = new Map<string, StoredReport[]>();
+  for (const r of unexpired(await store.load(), now)) {
+    const list = byLot.get(r.lotId) ?? [];
+    list.push(r);
+    byLot.set(r.lotId, list);
+  }
+  const result: Record<string, LotFullness> = {};
+  for (const [lotId, reports] of byLot) {
+    const fullness = aggregateFullness(reports, now, FULLNESS_WINDOW);
+    if (fullness) result[lotId] = fullness;
+  }
+  return result;
+}
+
+/**
+ * Record a report unless the client has hit the rate limit. Expired reports
+ * are dropped from the file on every write.
+ */
+export function addReport(
+  lotId: string,
+  level: FullnessLevel,
+  client: string,
+  now: number = Date.now(),
+): Promise<AddReportResult> {
+  return store.locked(async () => {
+    const reports = unexpired(await store.load(), now);
+
+    const windowStart = now - RATE_LIMIT_MINUTES * 60_000;
+    const recent = reports.filter((r) => r.client === client && r.reportedAt >= windowStart);
+    if (recent.length >= RATE_LIMIT_REPORTS) {
+      const oldest = Math.min(...recent.map((r) => r.reportedAt));
+      return { ok: false, retryAfterSeconds: Math.ceil((oldest - windowStart) / 1000) };
+    }
+
+    reports.push({ lotId, level, reportedAt: now, client });
+    await store.save(reports);
+    return {
+      ok: true,
+      fullness: aggregateFullness(
+        reports.filter((r) => r.lotId === lotId),
+        now,
+        FULLNESS_WINDOW,
+      ),
+    };
+  });
+}
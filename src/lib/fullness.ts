@@ -0,0 +1,100 @@
+import { FullnessLevel, FullnessReport, LotFullness } from "@/types";
+
+export const FULLNESS_LEVELS: FullnessLevel[] = ["full", "almostFull", "plenty"];
+
+export const FULLNESS_LABELS: Record<FullnessLevel, string> = {
+  full: "Full",
+  almostFull: "Almost full",
+  plenty: "Plenty of space",
+};
+
+/** How full each level counts as when reports are averaged (0 = empty, 1 = full). */
+const LEVEL_SCORES: Record<FullnessLevel, number> = {
+  full: 1,
+  almostFull: 0.7,
+  plenty: 0,
+};
+
+export interface FullnessWindow {
+  /** Reports older than this are ignored. */
+  expiryMinutes: number;
+  /** Age at which a report counts half as much as a fresh one. */
+  halfLifeMinutes: number;
+}
+
+export function isFullnessLevel(value: unknown): value is FullnessLevel {
+  return typeof value === "string" && (FULLNESS_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Combine a lot's reports into one level, weighting each report by its age
+ * so a fresh "Full" outweighs an hour-old "Plenty". Returns null when no
+ * report is recent enough to count.
+ */
+export function aggregateFullness(
+  reports: FullnessReport[],
+  now: number,
+  window: FullnessWindow,
+): LotFullness | null {
+  let weight = 0;
+  let score = 0;
+  let count = 0;
+  let lastReportedAt = 0;
+  for (const r of reports) {
+    const ageMinutes = (now - r.reportedAt) / 60_000;
+    if (ageMinutes < 0 || ageMinutes > window.expiryMinutes) continue;
+    const w = 0.5 ** (ageMinutes / window.halfLifeMinutes);
+    weight += w;
+    score += w * LEVEL_SCORES[r.level];
+    count++;
+    lastReportedAt = Math.max(lastReportedAt, r.reportedAt);
+  }
+  if (count === 0) return null;
+
+  const mean = score / weight;
+  const level: FullnessLevel = mean >= 0.85 ? "full" : mean >= 0.4 ? "almostFull" : "plenty";
+  return { level, reports: count, lastReportedAt };
+}
+
+/** e.g. "Almost full · 12 min ago" */
+export function formatFullness(fullness: LotFullness, now: number): string {
+  const minutes = Math.max(0, Math.round((now - fullness.lastReportedAt) / 60_000));
+  const ago = minutes < 1 ? "just now" : `${minutes} min ago`;
+  return `${FULLNESS_LABELS[fullness.level]} · ${ago}`;
+}
+
+/** Thrown when the server refuses a report because the client sent too many. */
+export class FullnessRateLimitError extends Error {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number) {
+    super("Too many reports — try again later");
+    this.name = "FullnessRateLimitError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export async function fetchFullness(): Promise<Record<string, LotFullness>> {
+  const res = await fetch("/api/fullness");
+  if (!res.ok) throw new Error(`Fullness API error: ${res.status}`);
+  const data = await res.json();
+  return data.lots;
+}
+
+/** Submit a report, returning the lot's updated fullness. */
+export async function submitFullnessReport(
+  lotId: string,
+  level: FullnessLevel,
+): Promise<LotFullness | null> {
+  const res = await fetch("/api/fullness", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ lotId, level }),
+  });
+  if (res.status === 429) {
+    throw new FullnessRateLimitError(Number(res.headers.get("Retry-After")) || 60);
+  }
+  if (!res.ok) throw new Error(`Fullness API error: ${res.status}`);
+  const data = await res.json();
+  return data.fullness;
+}
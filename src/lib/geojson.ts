@@ -0,0 +1,255 @@
+import { AccessibleSpace, LotCategory, LotStatus, ParkingLot, VisitorSpaces } from "@/types";
+import { polygonCenter, signedArea } from "./geometry";
+
+// GeoJSON uses [lng, lat] positions; ParkingLot polygons are [lat, lng].
+
+type Position = [number, number];
+
+export interface LotFeature {
+  type: "Feature";
+  id: string;
+  geometry: { type: "Polygon"; coordinates: Position[][] };
+  properties: {
+    id: string;
+    name: string;
+    category: LotCategory;
+    overnightExempt: boolean;
+    /** Label position, [lng, lat]. */
+    center: Position;
+    capacity?: number;
+    evSpaces?: number;
+    visitorSpaces?: VisitorSpaces;
+    accessibleSpaces?: AccessibleSpace[];
+    status?: LotStatus;
+  };
+}
+
+export interface LotFeatureCollection {
+  type: "FeatureCollection";
+  features: LotFeature[];
+}
+
+const CATEGORIES: LotCategory[] = ["student", "employee", "visitor", "restricted"];
+
+/** Lots as a FeatureCollection, with each lot's status when `statuses` is given. */
+export function lotsToGeoJSON(
+  lots: ParkingLot[],
+  statuses?: Map<string, LotStatus>,
+): LotFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: lots.map((lot) => {
+      const ring = lot.polygon.map(([lat, lng]): Position => [lng, lat]);
+      const [first, last] = [ring[0], ring[ring.length - 1]];
+      if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first);
+      // RFC 7946 outer rings run counterclockwise
+      if (signedArea(lot.polygon) < 0) ring.reverse();
+      const status = statuses?.get(lot.id);
+      return {
+        type: "Feature",
+        id: lot.id,
+        geometry: { type: "Polygon", coordinates: [ring] },
+        properties: {
+          id: lot.id,
+          name: lot.name,
+          category: lot.category,
+          overnightExempt: lot.overnightExempt,
+          center: [lot.lng, lot.lat],
+          ...(lot.capacity != null && { capacity: lot.capacity }),
+          ...(lot.evSpaces != null && { evSpaces: lot.evSpaces }),
+          ...(lot.visitorSpaces && { visitorSpaces: lot.visitorSpaces }),
+          ...(lot.accessibleSpaces && { accessibleSpaces: lot.accessibleSpaces }),
+          ...(status && { status }),
+        },
+      };
+    }),
+  };
+}
+
+export interface GeoJSONImportResult {
+  lots: ParkingLot[];
+  /** Problems that stop the import, e.g. "Feature 3 (Andy Kerr Lot): capacity must be …". */
+  errors: string[];
+}
+
+function isPosition(p: unknown): p is Position {
+  return (
+    Array.isArray(p) &&
+    p.length >= 2 &&
+    typeof p[0] === "number" &&
+    typeof p[1] === "number" &&
+    Number.isFinite(p[0]) &&
+    Number.isFinite(p[1])
+  );
+}
+
+/** The outer ring of a Polygon, or of a MultiPolygon with a single polygon. */
+function outerRing(geometry: unknown): unknown[] | string {
+  const g = geometry as { type?: unknown; coordinates?: unknown } | null;
+  if (!g || typeof g !== "object") return "missing geometry";
+  if (g.type === "Polygon" && Array.isArray(g.coordinates)) return g.coordinates[0];
+  if (g.type === "MultiPolygon" && Array.isArray(g.coordinates)) {
+    if (g.coordinates.length !== 1) return "MultiPolygon must contain exactly one polygon";
+    return (g.coordinates[0] as unknown[])?.[0] as unknown[];
+  }
+  return `geometry must be a Polygon, not ${String(g.type)}`;
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit;
+}
+
+function parseVisitorSpaces(raw: unknown): VisitorSpaces | string {
+  const v = raw as Record<string, unknown> | null;
+  if (!v || typeof v !== "object" || Array.isArray(v)) return "visitorSpaces must be an object";
+  if (v.count != null && !isCount(v.count)) {
+    return "visitorSpaces.count must be a whole number of at least 0";
+  }
+  if (typeof v.passRequired !== "boolean") return "visitorSpaces.passRequired must be true or false";
+  if (v.note != null && typeof v.note !== "string") return "visitorSpaces.note must be text";
+  return {
+    ...(isCount(v.count) && { count: v.count }),
+    passRequired: v.passRequired,
+    ...(typeof v.note === "string" && { note: v.note }),
+  };
+}
+
+function parseAccessibleSpaces(raw: unknown): AccessibleSpace[] | string {
+  if (!Array.isArray(raw)) return "accessibleSpaces must be a list";
+  const spaces: AccessibleSpace[] = [];
+  for (const [i, item] of raw.entries()) {
+    const a = item as Record<string, unknown> | null;
+    if (!a || typeof a !== "object") return `accessibleSpaces[${i}] must be an object`;
+    if (!isCoordinate(a.lat, 90) || !isCoordinate(a.lng, 180)) {
+      return `accessibleSpaces[${i}] needs a valid lat and lng`;
+    }
+    if (a.count != null && !isCount(a.count)) {
+      return `accessibleSpaces[${i}].count must be a whole number of at least 0`;
+    }
+    if (a.note != null && typeof a.note !== "string") return `accessibleSpaces[${i}].note must be text`;
+    spaces.push({
+      lat: a.lat,
+      lng: a.lng,
+      ...(isCount(a.count) && { count: a.count }),
+      ...(typeof a.note === "string" && { note: a.note }),
+    });
+  }
+  return spaces;
+}
+
+function parseFeature(
+  feature: unknown,
+  existing: Map<string, ParkingLot>,
+): ParkingLot | string[] {
+  const f = feature as { id?: unknown; geometry?: unknown; properties?: Record<string, unknown> };
+  const props = f?.properties ?? {};
+  const rawId = props.id ?? f?.id;
+  const id = typeof rawId === "number" ? String(rawId) : rawId;
+  if (typeof id !== "string" || id === "") return ["missing id"];
+  // Lots already in the dataset supply anything the GIS file leaves out
+  const base = existing.get(id);
+  const errors: string[] = [];
+
+  const name = props.name ?? base?.name;
+  if (typeof name !== "string" || !name.trim()) errors.push("missing name");
+
+  const category = props.category ?? base?.category;
+  if (!CATEGORIES.includes(category as LotCategory)) {
+    errors.push(`category must be one of ${CATEGORIES.join(", ")}`);
+  }
+
+  const overnightExempt = props.overnightExempt ?? base?.overnightExempt ?? false;
+  if (typeof overnightExempt !== "boolean") errors.push("overnightExempt must be true or false");
+
+  // Capacity stays unset until the lot has been counted
+  const capacity = props.capacity ?? base?.capacity;
+  if (capacity != null && (typeof capacity !== "number" || !Number.isInteger(capacity) || capacity <= 0)) {
+    errors.push("capacity must be a positive whole number");
+  }
+
+  const ring = outerRing(f?.geometry);
+  let polygon: [number, number][] = [];
+  if (typeof ring === "string") {
+    errors.push(ring);
+  } else if (!Array.isArray(ring) || ring.length < 4 || !ring.every(isPosition)) {
+    errors.push("polygon needs at least 4 [lng, lat] positions");
+  } else {
+    polygon = ring.map(([lng, lat]) => [lat, lng]);
+    if (polygon.some(([lat, lng]) => Math.abs(lat) > 90 || Math.abs(lng) > 180)) {
+      errors.push("coordinates out of range — are they [lat, lng] instead of [lng, lat]?");
+    }
+    const [first, last] = [polygon[0], polygon[polygon.length - 1]];
+    if (first[0] !== last[0] || first[1] !== last[1]) errors.push("polygon ring is not closed");
+  }
+
+  let center: [number, number] | null = null;
+  if (props.center != null) {
+    if (isPosition(props.center)) center = [props.center[1], props.center[0]];
+    else errors.push("center must be a [lng, lat] position");
+  }
+
+  if (props.evSpaces != null && !isCount(props.evSpaces)) {
+    errors.push("evSpaces must be a whole number of at least 0");
+  }
+  const visitorSpaces = props.visitorSpaces != null ? parseVisitorSpaces(props.visitorSpaces) : null;
+  if (typeof visitorSpaces === "string") errors.push(visitorSpaces);
+  const accessibleSpaces =
+    props.accessibleSpaces != null ? parseAccessibleSpaces(props.accessibleSpaces) : null;
+  if (typeof accessibleSpaces === "string") errors.push(accessibleSpaces);
+
+  if (errors.length > 0) return errors;
+
+  const [lat, lng] = center ?? (base ? [base.lat, base.lng] : polygonCenter(polygon));
+  const lot: ParkingLot = {
+    ...base,
+    id,
+    name: (name as string).trim(),
+    category: category as LotCategory,
+    overnightExempt: overnightExempt as boolean,
+    lat,
+    lng,
+    polygon,
+  };
+  if (capacity != null) lot.capacity = capacity as number;
+  if (props.evSpaces != null) lot.evSpaces = props.evSpaces as number;
+  if (visitorSpaces && typeof visitorSpaces !== "string") lot.visitorSpaces = visitorSpaces;
+  if (Array.isArray(accessibleSpaces)) lot.accessibleSpaces = accessibleSpaces;
+  return lot;
+}
+
+/**
+ * Turn a FeatureCollection (e.g. exported from QGIS or geojson.io) into lots.
+ * Features are matched to `existing` lots by id, whose fields fill in any
+ * properties the file omits. Duplicate ids and invalid features are errors.
+ */
+export function geoJSONToLots(data: unknown, existing: ParkingLot[] = []): GeoJSONImportResult {
+  const fc = data as { type?: unknown; features?: unknown };
+  if (fc?.type !== "FeatureCollection" || !Array.isArray(fc.features)) {
+    return { lots: [], errors: ["Expected a GeoJSON FeatureCollection"] };
+  }
+
+  const byId = new Map(existing.map((lot) => [lot.id, lot]));
+  const seen = new Set<string>();
+  const lots: ParkingLot[] = [];
+  const errors: string[] = [];
+
+  fc.features.forEach((feature, i) => {
+    const result = parseFeature(feature, byId);
+    const label = (feature as { properties?: { name?: unknown } })?.properties?.name;
+    const where = `Feature ${i}${typeof label === "string" ? ` (${label})` : ""}`;
+    if (Array.isArray(result)) {
+      for (const e of result) errors.push(`${where}: ${e}`);
+    } else if (seen.has(result.id)) {
+      errors.push(`${where}: duplicate id "${result.id}"`);
+    } else {
+      seen.add(result.id);
+      lots.push(result);
+    }
+  });
+
+  return { lots, errors };
+}
@@ -0,0 +1,67 @@
+/** Ray-casting test for whether a lat/lng point lies inside a polygon ring. */
+export function pointInPolygon(
+  point: [number, number],
+  polygon: [number, number][],
+): boolean {
+  const [y, x] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [yi, xi] = polygon[i];
+    const [yj, xj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Great-circle (Haversine) distance between two lat/lng points, in km. */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/** Average of a ring's vertices (a repeated closing vertex excluded), rounded to 6 places. */
+export function polygonCenter(ring: [number, number][]): [number, number] {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  const pts = ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+  const lat = pts.reduce((sum, p) => sum + p[0], 0) / pts.length;
+  const lng = pts.reduce((sum, p) => sum + p[1], 0) / pts.length;
+  return [Number(lat.toFixed(6)), Number(lng.toFixed(6))];
+}
+
+/**
+ * Signed area of a [lat, lng] ring in squared degrees, treating lng as x and
+ * lat as y. Positive means counterclockwise on the map.
+ */
+export function signedArea(ring: [number, number][]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][1] * ring[i][0] - ring[i][1] * ring[j][0];
+  }
+  return sum / 2;
+}
+
+function orientation(a: [number, number], b: [number, number], c: [number, number]): number {
+  const v = (b[1] - a[1]) * (c[0] - a[0]) - (b[0] - a[0]) * (c[1] - a[1]);
+  return v > 0 ? 1 : v < 0 ? -1 : 0;
+}
+
+/** Whether segments ab and cd cross at a single interior point (touching ends don't count). */
+export function segmentsCross(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number],
+  d: [number, number],
+): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  return o1 * o2 < 0 && o3 * o4 < 0;
+}
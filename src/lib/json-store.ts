@@ -0,0 +1,51 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// Server-only: tiny file-backed stores so the app needs no database.
+
+export interface JsonStore<T> {
+  load(): Promise<T[]>;
+  save(items: T[]): Promise<void>;
+  /** Run a read-modify-write cycle without interleaving with others in this process. */
+  locked<R>(fn: () => Promise<R>): Promise<R>;
+}
+
+/** Read a positive number of minutes from the environment. */
+export function envMinutes(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * A JSON array stored in `.data/<fileName>`, or at the path in the `pathEnv`
+ * environment variable when set.
+ */
+export function createJsonStore<T>(pathEnv: string, fileName: string): JsonStore<T> {
+  const filePath = process.env[pathEnv] ?? path.join(process.cwd(), ".data", fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    async load() {
+      try {
+        return JSON.parse(await readFile(filePath, "utf8")) as T[];
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+    },
+
+    // Write via a temp file so a crash mid-write can't leave half a file behind
+    async save(items) {
+      await mkdir(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.tmp`;
+      await writeFile(tmp, JSON.stringify(items));
+      await rename(tmp, filePath);
+    },
+
+    locked(fn) {
+      const run = queue.then(fn, fn);
+      queue = run.catch(() => {});
+      return run;
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { CountReading, LiveCount, ParkingLot } from "@/types";
+import { parkingLots } from "@/data/lots";
+
+export interface CountBatchError {
+  /** Zero-based position of the entry in the batch (CSV rows exclude the header). */
+  index: number;
+  error: string;
+}
+
+export interface ParsedCountBatch {
+  readings: CountReading[];
+  errors: CountBatchError[];
+}
+
+interface RawCount {
+  lotId?: unknown;
+  occupied?: unknown;
+  at?: unknown;
+}
+
+const lotsById = new Map<string, ParkingLot>(parkingLots.map((lot) => [lot.id, lot]));
+
+function toReading(raw: RawCount, now: number): CountReading | string {
+  if (typeof raw.lotId !== "string" || !raw.lotId) return "lotId is required";
+  const lot = lotsById.get(raw.lotId);
+  if (!lot) return `Unknown lotId "${raw.lotId}"`;
+
+  // A blank cell is a missing count, not zero
+  if (typeof raw.occupied === "string" && raw.occupied.trim() === "") return "occupied is required";
+  const occupied = typeof raw.occupied === "string" ? Number(raw.occupied) : raw.occupied;
+  if (typeof occupied !== "number" || !Number.isInteger(occupied) || occupied < 0) {
+    return "occupied must be a whole number of spaces";
+  }
+  if (lot.capacity != null && occupied > lot.capacity) {
+    return `occupied (${occupied}) exceeds ${lot.name} capacity (${lot.capacity})`;
+  }
+
+  let at = now;
+  if (raw.at != null && raw.at !== "") {
+    at = typeof raw.at === "number" ? raw.at : Date.parse(String(raw.at));
+    if (!Number.isFinite(at)) return `Unreadable timestamp "${raw.at}"`;
+    if (at > now + 5 * 60_000) return "Timestamp is in the future";
+  }
+  return { lotId: lot.id, occupied, at };
+}
+
+function collect(rows: RawCount[], now: number): ParsedCountBatch {
+  const result: ParsedCountBatch = { readings: [], errors: [] };
+  rows.forEach((raw, index) => {
+    const reading = toReading(raw ?? {}, now);
+    if (typeof reading === "string") result.errors.push({ index, error: reading });
+    else result.readings.push(reading);
+  });
+  return result;
+}
+
+/**
+ * Parse a JSON batch: an array of `{ lotId, occupied, at? }`, or an object
+ * with such an array under `counts`. `at` is an ISO timestamp or epoch
+ * milliseconds and defaults to now.
+ */
+export function parseJsonCounts(body: unknown, now: number = Date.now()): ParsedCountBatch {
+  const rows = Array.isArray(body) ? body : (body as { counts?: unknown } | null)?.counts;
+  if (!Array.isArray(rows)) {
+    return { readings: [], errors: [{ index: -1, error: "Expected an array of counts" }] };
+  }
+  return collect(rows as RawCount[], now);
+}
+
+/** Parse a CSV batch with a `lot_id,occupied[,timestamp]` header. */
+export function parseCsvCounts(text: string, now: number = Date.now()): ParsedCountBatch {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  const header = (lines[0] ?? "").split(",").map((h) => h.trim().toLowerCase());
+  const lotCol = header.indexOf("lot_id");
+  const occupiedCol = header.indexOf("occupied");
+  const atCol = header.indexOf("timestamp");
+  if (lotCol < 0 || occupiedCol < 0) {
+    return {
+      readings: [],
+      errors: [{ index: -1, error: "CSV header must include lot_id and occupied" }],
+    };
+  }
+  const rows = lines.slice(1).map((line) => {
+    const cells = line.split(",").map((c) => c.trim());
+    return {
+      lotId: cells[lotCol],
+      occupied: cells[occupiedCol],
+      at: atCol >= 0 ? cells[atCol] : undefined,
+    };
+  });
+  return collect(rows, now);
+}
+
+/** e.g. "12 of 58 free", or "46 parked" for a lot whose capacity isn't known. */
+export function formatLiveCount(count: LiveCount): string {
+  if (count.free == null || count.capacity == null) return `${count.occupied} parked`;
+  return `${count.free} of ${count.capacity} free`;
+}
+
+export async function fetchLiveCounts(): Promise<Record<string, LiveCount>> {
+  const res = await fetch("/api/counts");
+  if (!res.ok) throw new Error(`Counts API error: ${res.status}`);
+  const data = await res.json();
+  return data.lots;
+}
@@ -0,0 +1,120 @@
+import { LotStatus, ParkingLot, PermitType } from "@/types";
+import { PERMIT_OPTIONS } from "@/data/permits";
+import { EasternTime, fromEasternStamp, getEasternTime, toStamp } from "./time-utils";
+import { getLotStatus, getPeriodLabel } from "./availability";
+import { StayLimit, getStayLimit } from "./stay";
+
+// Shapes and helpers for the public /api/lots endpoints.
+
+/** Statuses for "now" change at most every minute; match the map's refresh. */
+export const LIVE_CACHE = "public, max-age=15, s-maxage=15, stale-while-revalidate=45";
+
+/** Statuses for an explicit moment only change when the app is redeployed. */
+export const FIXED_CACHE = "public, max-age=3600, s-maxage=3600";
+
+export interface LotResource {
+  id: string;
+  name: string;
+  category: ParkingLot["category"];
+  overnightExempt: boolean;
+  lat: number;
+  lng: number;
+  /** Null until the lot has been counted. */
+  capacity: number | null;
+  evSpaces: number | null;
+  visitorSpaces: ParkingLot["visitorSpaces"] | null;
+  accessibleSpaces: ParkingLot["accessibleSpaces"];
+  status: LotStatus;
+  stay: StayLimit | null;
+}
+
+/** What /api/lots/status reports about the moment it evaluated. */
+export interface MomentResource {
+  /** ISO instant. */
+  at: string;
+  /** Eastern wall-clock time, "YYYY-MM-DDTHH:MM". */
+  eastern: string;
+  period: string;
+  permit: PermitType | null;
+}
+
+export function lotResource(
+  lot: ParkingLot,
+  et: EasternTime,
+  permit: PermitType | null,
+): LotResource {
+  return {
+    id: lot.id,
+    name: lot.name,
+    category: lot.category,
+    overnightExempt: lot.overnightExempt,
+    lat: lot.lat,
+    lng: lot.lng,
+    capacity: lot.capacity ?? null,
+    evSpaces: lot.evSpaces ?? null,
+    visitorSpaces: lot.visitorSpaces ?? null,
+    accessibleSpaces: lot.accessibleSpaces ?? [],
+    status: getLotStatus(lot, et, permit),
+    stay: getStayLimit(lot, et, permit),
+  };
+}
+
+export function momentResource(at: Date, et: EasternTime, permit: PermitType | null): MomentResource {
+  return {
+    at: at.toISOString(),
+    eastern: toStamp(et.date, et.minutesSinceMidnight),
+    period: getPeriodLabel(et),
+    permit,
+  };
+}
+
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+/** A missing permit means the general public. */
+export function parsePermit(value: string | null): PermitType | null {
+  if (value == null || value === "") return null;
+  const option = PERMIT_OPTIONS.find((o) => o.value === value);
+  if (!option) {
+    throw new BadRequestError(
+      `permit must be one of ${PERMIT_OPTIONS.map((o) => o.value).join(", ")}`,
+    );
+  }
+  return option.value;
+}
+
+/**
+ * An ISO instant ("2026-10-21T13:00:00Z"), or an Eastern wall-clock time
+ * without an offset ("2026-10-21T09:00"). Missing means now.
+ */
+export function parseAt(value: string | null): { at: Date; fixed: boolean } {
+  if (value == null || value === "") return { at: new Date(), fixed: false };
+  const at = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(value)
+    ? fromEasternStamp(value)
+    : new Date(value);
+  if (Number.isNaN(at.getTime())) {
+    throw new BadRequestError("at must be an ISO timestamp or Eastern YYYY-MM-DDTHH:MM");
+  }
+  return { at, fixed: true };
+}
+
+/**
+ * Read `at` and `permit` from a request's query string. Bad values throw
+ * BadRequestError.
+ */
+export function parseStatusQuery(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const { at, fixed } = parseAt(params.get("at"));
+  return { at, fixed, et: getEasternTime(at), permit: parsePermit(params.get("permit")) };
+}
+
+export function errorResponse(err: unknown): Response {
+  if (err instanceof BadRequestError) {
+    return Response.json({ error: err.message }, { status: 400 });
+  }
+  throw err;
+}
@@ -0,0 +1,118 @@
+import { ParkingLot } from "@/types";
+import { parkingLots } from "@/data/lots";
+import { polygonCenter } from "./geometry";
+import { lotsToGeoJSON } from "./geojson";
+import { formatLotEntry } from "./lot-source";
+import { ValidationIssue, validateLots } from "./lot-validation";
+
+/**
+ * A lot being drawn in the boundary editor. `vertices` is the open outline
+ * (no repeated closing point) so vertices can be added and removed freely.
+ */
+export interface LotDraft {
+  /** ID of the lot being edited, or null for a new lot. */
+  sourceId: string | null;
+  id: string;
+  name: string;
+  category: ParkingLot["category"];
+  overnightExempt: boolean;
+  /** Null while the lot hasn't been counted. */
+  capacity: number | null;
+  vertices: [number, number][];
+}
+
+export const EMPTY_DRAFT: LotDraft = {
+  sourceId: null,
+  id: "",
+  name: "",
+  category: "student",
+  overnightExempt: false,
+  capacity: null,
+  vertices: [],
+};
+
+/** Start editing an existing lot. */
+export function draftFromLot(lot: ParkingLot): LotDraft {
+  const ring = lot.polygon;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  const closed = first[0] === last[0] && first[1] === last[1];
+  return {
+    sourceId: lot.id,
+    id: lot.id,
+    name: lot.name,
+    category: lot.category,
+    overnightExempt: lot.overnightExempt,
+    capacity: lot.capacity ?? null,
+    vertices: closed ? ring.slice(0, -1) : [...ring],
+  };
+}
+
+/**
+ * The lot a draft describes, with its ring closed and its center recomputed
+ * from the outline. Null until it has at least three vertices. Fields the
+ * editor doesn't cover (visitor/accessible spaces, EV) carry over from the
+ * lot being edited.
+ */
+export function lotFromDraft(draft: LotDraft): ParkingLot | null {
+  if (draft.vertices.length < 3) return null;
+  const polygon = [...draft.vertices, draft.vertices[0]];
+  const [lat, lng] = polygonCenter(polygon);
+  const source = parkingLots.find((lot) => lot.id === draft.sourceId);
+  const lot: ParkingLot = {
+    ...source,
+    id: draft.id.trim(),
+    name: draft.name.trim(),
+    category: draft.category,
+    overnightExempt: draft.overnightExempt,
+    lat,
+    lng,
+    polygon,
+  };
+  if (draft.capacity == null) delete lot.capacity;
+  else lot.capacity = draft.capacity;
+  return lot;
+}
+
+/** Form problems plus any validator issues for the drafted lot against the rest of the dataset. */
+export function checkDraft(draft: LotDraft): ValidationIssue[] {
+  const lot = lotFromDraft(draft);
+  const issue = (message: string): ValidationIssue => ({
+    severity: "error",
+    check: "form",
+    lotId: draft.id,
+    lotName: draft.name,
+    message,
+  });
+  const issues: ValidationIssue[] = [];
+  if (!draft.id.trim()) issues.push(issue("ID is required"));
+  if (!draft.name.trim()) issues.push(issue("Name is required"));
+  if (draft.capacity != null && (!Number.isInteger(draft.capacity) || draft.capacity <= 0)) {
+    issues.push(issue("Capacity must be a positive whole number"));
+  }
+  const others = parkingLots.filter((l) => l.id !== draft.sourceId);
+  const sameId = others.find((l) => l.id === draft.id.trim());
+  if (sameId) issues.push(issue(`ID is already used by ${sameId.name}`));
+  const sameName = others.find((l) => l.name.toLowerCase() === draft.name.trim().toLowerCase());
+  if (sameName) issues.push(issue(`Name is already used by lot ${sameName.id}`));
+  if (!lot) return [...issues, issue("Draw at least three vertices")];
+
+  // The draft goes first so overlap issues are reported against it. Duplicate
+  // IDs and names are covered above, worded from the draft's side.
+  const seen = new Set<string>();
+  const found = validateLots([lot, ...others]).filter((i) => {
+    if (i.lotId !== lot.id || i.lotName !== lot.name) return false;
+    if (i.check === "duplicate-id" || i.check === "duplicate-name") return false;
+    if (seen.has(i.message)) return false;
+    seen.add(i.message);
+    return true;
+  });
+  return [...issues, ...found];
+}
+
+export type DraftExportFormat = "entry" | "geojson";
+
+/** Ready-to-paste text for a drafted lot. */
+export function exportDraft(lot: ParkingLot, format: DraftExportFormat): string {
+  if (format === "entry") return formatLotEntry(lot);
+  return JSON.stringify(lotsToGeoJSON([lot]).features[0], null, 2);
+}
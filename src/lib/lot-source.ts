@@ -0,0 +1,51 @@
+import { ParkingLot } from "@/types";
+
+// Formats lots as TypeScript source in the style of src/data/lots.ts.
+
+/** A one-line object/array literal with unquoted keys, e.g. `{ passRequired: true, note: "…" }`. */
+function literal(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(literal).join(", ")}]`;
+  if (value && typeof value === "object") {
+    const fields = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .map(([k, v]) => `${k}: ${literal(v)}`);
+    return `{ ${fields.join(", ")} }`;
+  }
+  return JSON.stringify(value);
+}
+
+/** One `parkingLots` entry, indented to sit inside the array. */
+export function formatLotEntry(lot: ParkingLot): string {
+  const lines = [
+    "  {",
+    `    id: ${JSON.stringify(lot.id)},`,
+    `    name: ${JSON.stringify(lot.name)},`,
+    `    category: ${JSON.stringify(lot.category)},`,
+    `    overnightExempt: ${lot.overnightExempt},`,
+    `    lat: ${lot.lat},`,
+    `    lng: ${lot.lng},`,
+  ];
+  if (lot.capacity != null) lines.push(`    capacity: ${lot.capacity},`);
+  if (lot.evSpaces != null) lines.push(`    evSpaces: ${lot.evSpaces},`);
+  if (lot.accessibleSpaces) lines.push(`    accessibleSpaces: ${literal(lot.accessibleSpaces)},`);
+  if (lot.visitorSpaces) lines.push(`    visitorSpaces: ${literal(lot.visitorSpaces)},`);
+  lines.push("    polygon: [");
+  lot.polygon.forEach(([lat, lng], i) => {
+    lines.push(`      [${lat}, ${lng}]${i < lot.polygon.length - 1 ? "," : ""}`);
+  });
+  lines.push("    ],", "  },");
+  return lines.join("\n");
+}
+
+/** The whole of src/data/lots.ts for a dataset, sorted by name. */
+export function formatLotsModule(lots: ParkingLot[]): string {
+  const sorted = [...lots].sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  return [
+    'import { ParkingLot } from "@/types";',
+    "",
+    "export const parkingLots: ParkingLot[] = [",
+    ...sorted.map(formatLotEntry),
+    "];",
+    "",
+  ].join("\n");
+}
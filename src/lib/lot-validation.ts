@@ -0,0 +1,170 @@
+import { ParkingLot } from "@/types";
+import { pointInPolygon, segmentsCross, signedArea } from "./geometry";
+
+/** Generous box around campus and the village lots; anything outside is a typo. */
+export const CAMPUS_BOUNDS = {
+  south: 42.805,
+  north: 42.835,
+  west: -75.56,
+  east: -75.52,
+};
+
+export type IssueSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  /** Short check name, e.g. "ring-closure". */
+  check: string;
+  lotId: string;
+  lotName: string;
+  message: string;
+}
+
+type Point = [number, number];
+
+const samePoint = (a: Point, b: Point) => a[0] === b[0] && a[1] === b[1];
+
+/** The ring's edges, without the zero-length closing edge of a closed ring. */
+function edges(ring: Point[]): [Point, Point][] {
+  const result: [Point, Point][] = [];
+  for (let i = 0; i < ring.length - 1; i++) result.push([ring[i], ring[i + 1]]);
+  if (!samePoint(ring[0], ring[ring.length - 1])) result.push([ring[ring.length - 1], ring[0]]);
+  return result;
+}
+
+function checkLot(lot: ParkingLot, issue: (severity: IssueSeverity, check: string, message: string) => void) {
+  const ring = lot.polygon;
+  const distinct = new Set(ring.map((p) => p.join(","))).size;
+  if (distinct < 3) {
+    issue("error", "vertices", `polygon has only ${distinct} distinct vertices`);
+    return;
+  }
+
+  if (!samePoint(ring[0], ring[ring.length - 1])) {
+    issue("error", "ring-closure", "polygon ring is not closed (first and last points differ)");
+  }
+
+  ring.forEach((p, i) => {
+    if (i > 0 && samePoint(p, ring[i - 1])) {
+      issue("warning", "duplicate-point", `vertex ${i} repeats vertex ${i - 1}`);
+    }
+  });
+
+  const outside = ring.filter(
+    ([lat, lng]) =>
+      lat < CAMPUS_BOUNDS.south ||
+      lat > CAMPUS_BOUNDS.north ||
+      lng < CAMPUS_BOUNDS.west ||
+      lng > CAMPUS_BOUNDS.east,
+  );
+  if (outside.length > 0) {
+    issue(
+      "error",
+      "bounds",
+      `${outside.length} vertices outside the campus bounding box, e.g. [${outside[0].join(", ")}]`,
+    );
+  }
+
+  const sides = edges(ring);
+  for (let i = 0; i < sides.length; i++) {
+    for (let j = i + 1; j < sides.length; j++) {
+      if (segmentsCross(sides[i][0], sides[i][1], sides[j][0], sides[j][1])) {
+        issue("error", "self-intersection", `edges ${i} and ${j} cross`);
+      }
+    }
+  }
+
+  const area = signedArea(ring);
+  if (area === 0) {
+    issue("error", "winding", "polygon has zero area");
+  } else if (area < 0) {
+    issue("warning", "winding", "ring is clockwise; GeoJSON expects counterclockwise outer rings");
+  }
+
+  if (!pointInPolygon([lot.lat, lot.lng], ring)) {
+    issue("error", "center", `center [${lot.lat}, ${lot.lng}] is outside the polygon`);
+  }
+
+  lot.accessibleSpaces?.forEach((space, i) => {
+    if (!pointInPolygon([space.lat, space.lng], ring)) {
+      issue("warning", "accessible-space", `accessible space ${i} is outside the polygon`);
+    }
+  });
+}
+
+/**
+ * Whether two lots overlap: crossing edges, or one's center or first vertex
+ * inside the other (which also catches identical and nested outlines).
+ */
+function overlaps(a: ParkingLot, b: ParkingLot): boolean {
+  for (const [p1, p2] of edges(a.polygon)) {
+    for (const [q1, q2] of edges(b.polygon)) {
+      if (segmentsCross(p1, p2, q1, q2)) return true;
+    }
+  }
+  return (
+    pointInPolygon([a.lat, a.lng], b.polygon) ||
+    pointInPolygon([b.lat, b.lng], a.polygon) ||
+    pointInPolygon(a.polygon[0], b.polygon) ||
+    pointInPolygon(b.polygon[0], a.polygon)
+  );
+}
+
+/**
+ * Check every lot's geometry and the dataset as a whole. Errors are data that
+ * would show wrong on the map or break lookups; warnings are worth tidying.
+ */
+export function validateLots(lots: ParkingLot[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const add = (lot: ParkingLot) => (severity: IssueSeverity, check: string, message: string) =>
+    issues.push({ severity, check, lotId: lot.id, lotName: lot.name, message });
+
+  for (const lot of lots) checkLot(lot, add(lot));
+
+  const firstWithId = new Map<string, ParkingLot>();
+  const firstWithName = new Map<string, ParkingLot>();
+  for (const lot of lots) {
+    const sameId = firstWithId.get(lot.id);
+    if (sameId) add(lot)("error", "duplicate-id", `id is also used by ${sameId.name}`);
+    else firstWithId.set(lot.id, lot);
+
+    const key = lot.name.trim().toLowerCase();
+    const sameName = firstWithName.get(key);
+    if (sameName) add(lot)("error", "duplicate-name", `name is also used by lot ${sameName.id}`);
+    else firstWithName.set(key, lot);
+  }
+
+  for (let i = 0; i < lots.length; i++) {
+    for (let j = i + 1; j < lots.length; j++) {
+      if (overlaps(lots[i], lots[j])) {
+        add(lots[i])("error", "overlap", `overlaps ${lots[j].name} (${lots[j].id})`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/** A plain-text report grouped by lot, errors first, ending with a summary line. */
+export function formatValidationReport(issues: ValidationIssue[], lotCount: number): string {
+  const errors = issues.filter((i) => i.severity === "error").length;
+  const warnings = issues.length - errors;
+  const byLot = new Map<string, ValidationIssue[]>();
+  for (const issue of issues) {
+    const key = `${issue.lotName} (${issue.lotId})`;
+    byLot.set(key, [...(byLot.get(key) ?? []), issue]);
+  }
+
+  const lines: string[] = [];
+  for (const [lot, list] of byLot) {
+    lines.push(lot);
+    const sorted = [...list].sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1));
+    for (const i of sorted) {
+      lines.push(`  ${i.severity === "error" ? "ERROR" : "warn "} ${i.check}: ${i.message}`);
+    }
+  }
+  lines.push(
+    `${lotCount} lots checked: ${errors} error${errors === 1 ? "" : "s"}, ${warnings} warning${warnings === 1 ? "" : "s"}`,
+  );
+  return lines.join("\n");
+}
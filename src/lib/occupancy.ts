@@ -0,0 +1,63 @@
+import { ParkingLot } from "@/types";
+import { occupancyData } from "@/data/occupancy";
+import { EasternTime, formatMinutes } from "./time-utils";
+
+/** Length of each occupancy slot in minutes. */
+export const OCCUPANCY_SLOT_MINUTES = occupancyData.slotMinutes;
+
+/** Average occupancy at or above which a lot counts as routinely full. */
+const FULL_THRESHOLD = 0.9;
+
+/**
+ * A lot's typical occupancy (0–1) for each slot of a weekday, or null if
+ * there are no historical counts for that day or the lot's capacity isn't
+ * known.
+ */
+export function getTypicalOccupancy(lot: ParkingLot, day: number): (number | null)[] | null {
+  const counts = occupancyData.lots[lot.id]?.[String(day)];
+  const capacity = lot.capacity;
+  if (!counts || capacity == null) return null;
+  return counts.map((c) => (c == null ? null : Math.min(1, c / capacity)));
+}
+
+export interface FullStretch {
+  /** Minutes since midnight the lot usually fills. */
+  from: number;
+  /** Minutes since midnight it usually has space again. */
+  until: number;
+}
+
+/**
+ * The first stretch of a weekday during which a lot is usually full that
+ * hasn't ended by `after` (minutes since midnight).
+ */
+export function getUsualFullStretch(
+  lot: ParkingLot,
+  day: number,
+  after: number = 0,
+): FullStretch | null {
+  const slots = getTypicalOccupancy(lot, day);
+  if (!slots) return null;
+  const size = OCCUPANCY_SLOT_MINUTES;
+  const isFull = (i: number) => (slots[i] ?? 0) >= FULL_THRESHOLD;
+  for (let start = 0; start < slots.length; start++) {
+    if (!isFull(start)) continue;
+    let end = start;
+    while (end < slots.length && isFull(end)) end++;
+    if (end * size > after) return { from: start * size, until: end * size };
+    start = end;
+  }
+  return null;
+}
+
+/**
+ * e.g. "Usually full by 9:30 AM", or "Usually full until 2:30 PM" once it has
+ * filled. Null when the lot doesn't routinely fill again today.
+ */
+export function getFullnessHint(lot: ParkingLot, et: EasternTime): string | null {
+  const stretch = getUsualFullStretch(lot, et.dayOfWeek, et.minutesSinceMidnight);
+  if (!stretch) return null;
+  return et.minutesSinceMidnight < stretch.from
+    ? `Usually full by ${formatMinutes(stretch.from)}`
+    : `Usually full until ${formatMinutes(stretch.until % (24 * 60))}`;
+}
@@ -0,0 +1,214 @@
+import { ParkingLot, LotStatus, PermitType } from "@/types";
+import {
+  AccessRule,
+  LotMatcher,
+  ParkingPeriod,
+  RuleSet,
+  FALLBACK_RULE,
+  TRANSITION_WINDOW,
+} from "@/data/rules";
+import { EasternTime, addDays, formatMinutes } from "./time-utils";
+
+const DAY = 24 * 60;
+
+/** Longest span searched for an upcoming change (one week). */
+const MAX_LOOKAHEAD = 7 * DAY;
+
+/** A moment the engine is evaluating: calendar date, weekday and minutes since midnight. */
+export interface RuleCursor {
+  date: string;
+  day: number;
+  mins: number;
+}
+
+/** The rules in force on a calendar date, and the weekday they should be read as. */
+export interface DayPolicy {
+  rules: RuleSet;
+  day: number;
+}
+
+/** Picks the rules for a date, letting calendars and emergencies override the defaults. */
+export type PolicyResolver = (date: string, day: number) => DayPolicy;
+
+export function cursorAt(et: EasternTime): RuleCursor {
+  return { date: et.date, day: et.dayOfWeek, mins: et.minutesSinceMidnight };
+}
+
+function matches(lot: ParkingLot, match: LotMatcher | undefined): boolean {
+  if (!match) return true;
+  if (match.categories && !match.categories.includes(lot.category)) return false;
+  if (match.overnightExempt != null && match.overnightExempt !== lot.overnightExempt) {
+    return false;
+  }
+  if (
+    match.passRequired != null &&
+    match.passRequired !== (lot.visitorSpaces?.passRequired ?? true)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Whether a rule lets the viewer park. A null permit means the general public. */
+export function isOpenFor(rule: AccessRule, permit: PermitType | null): boolean {
+  if (rule.open) return true;
+  return permit != null && (rule.permits?.includes(permit) ?? false);
+}
+
+function periodIn(policy: DayPolicy, mins: number): ParkingPeriod | null {
+  for (const period of policy.rules.periods) {
+    for (const w of period.windows) {
+      if (w.days.includes(policy.day) && mins >= w.start && mins < w.end) return period;
+    }
+  }
+  return null;
+}
+
+/** The period whose window contains the given moment. */
+export function resolvePeriod(
+  cursor: RuleCursor,
+  resolve: PolicyResolver,
+): ParkingPeriod | null {
+  return periodIn(resolve(cursor.date, cursor.day), cursor.mins);
+}
+
+/** The rule governing a lot at the given moment. */
+export function resolveAccess(
+  lot: ParkingLot,
+  cursor: RuleCursor,
+  resolve: PolicyResolver,
+): AccessRule {
+  const policy = resolve(cursor.date, cursor.day);
+  const standing = policy.rules.standing.find((r) => matches(lot, r.match));
+  if (standing) return standing;
+  const period = periodIn(policy, cursor.mins);
+  return period?.access.find((r) => matches(lot, r.match)) ?? FALLBACK_RULE;
+}
+
+/** Advance the cursor to the next window edge (or midnight), returning minutes stepped. */
+function stepToNextEdge(cursor: RuleCursor, resolve: PolicyResolver): number {
+  const policy = resolve(cursor.date, cursor.day);
+  let next = DAY;
+  for (const period of policy.rules.periods) {
+    for (const w of period.windows) {
+      if (!w.days.includes(policy.day)) continue;
+      if (w.start > cursor.mins && w.start < next) next = w.start;
+      if (w.end > cursor.mins && w.end < next) next = w.end;
+    }
+  }
+  const step = next - cursor.mins;
+  cursor.mins = next;
+  if (cursor.mins >= DAY) {
+    cursor.mins -= DAY;
+    cursor.day = (cursor.day + 1) % 7;
+    cursor.date = addDays(cursor.date, 1);
+  }
+  return step;
+}
+
+/**
+ * Offsets (minutes from `start`) of every window edge and midnight within
+ * the next `span` minutes.
+ */
+export function listEdges(
+  start: RuleCursor,
+  span: number,
+  resolve: PolicyResolver,
+): number[] {
+  const cursor = { ...start };
+  const edges: number[] = [];
+  let elapsed = stepToNextEdge(cursor, resolve);
+  while (elapsed < span) {
+    edges.push(elapsed);
+    elapsed += stepToNextEdge(cursor, resolve);
+  }
+  return edges;
+}
+
+/**
+ * Walk forward from `et` over window edges until `changed` reports a
+ * difference. Returns the minutes until that edge, or null past `horizon`.
+ */
+function findNextEdge(
+  et: EasternTime,
+  resolve: PolicyResolver,
+  horizon: number,
+  changed: (cursor: RuleCursor) => boolean,
+): { cursor: RuleCursor; minutesUntil: number } | null {
+  const cursor = cursorAt(et);
+  let elapsed = 0;
+  while (elapsed < horizon) {
+    elapsed += stepToNextEdge(cursor, resolve);
+    if (elapsed > horizon) break;
+    if (changed(cursor)) return { cursor: { ...cursor }, minutesUntil: elapsed };
+  }
+  return null;
+}
+
+/** The next moment a lot switches between available and unavailable to the viewer. */
+export function findNextChange(
+  lot: ParkingLot,
+  et: EasternTime,
+  resolve: PolicyResolver,
+  permit: PermitType | null,
+  horizon: number = MAX_LOOKAHEAD,
+): { rule: AccessRule; minutesUntil: number } | null {
+  const current = isOpenFor(resolveAccess(lot, cursorAt(et), resolve), permit);
+  const edge = findNextEdge(et, resolve, horizon, (cursor) =>
+    isOpenFor(resolveAccess(lot, cursor, resolve), permit) !== current,
+  );
+  if (!edge) return null;
+  return { rule: resolveAccess(lot, edge.cursor, resolve), minutesUntil: edge.minutesUntil };
+}
+
+/**
+ * The next period boundary at which any of `lots` changes availability to
+ * the general public. Boundaries that change nothing (e.g. Friday open hours
+ * rolling into the weekend) are skipped.
+ */
+export function findNextTransition(
+  et: EasternTime,
+  lots: ParkingLot[],
+  resolve: PolicyResolver,
+): { period: ParkingPeriod | null; minutesUntil: number } | null {
+  const start = cursorAt(et);
+  const current = lots.map((lot) => resolveAccess(lot, start, resolve).open);
+  const edge = findNextEdge(et, resolve, MAX_LOOKAHEAD, (cursor) =>
+    lots.some((lot, i) => resolveAccess(lot, cursor, resolve).open !== current[i]),
+  );
+  if (!edge) return null;
+  return { period: resolvePeriod(edge.cursor, resolve), minutesUntil: edge.minutesUntil };
+}
+
+/**
+ * Compute a lot's status as seen by a permit holder, flagging changes within
+ * TRANSITION_WINDOW as yellow/orange.
+ */
+export function evaluateLot(
+  lot: ParkingLot,
+  et: EasternTime,
+  resolve: PolicyResolver,
+  permit: PermitType | null,
+): LotStatus {
+  const rule = resolveAccess(lot, cursorAt(et), resolve);
+  const next = findNextChange(lot, et, resolve, permit, TRANSITION_WINDOW);
+
+  if (next) {
+    const opening = isOpenFor(next.rule, permit);
+    const at = formatMinutes((et.minutesSinceMidnight + next.minutesUntil) % DAY);
+    const notice = opening
+      ? next.rule.notices?.opening ?? "Opens"
+      : next.rule.notices?.closing ?? "Closes";
+    return {
+      color: opening ? "yellow" : "orange",
+      label: opening ? "Opening soon" : "Closing soon",
+      reason: `${notice} at ${at} (${next.minutesUntil} min)`,
+    };
+  }
+
+  return {
+    color: isOpenFor(rule, permit) ? "green" : "red",
+    label: rule.label,
+    reason: rule.reason,
+  };
+}
@@ -1,36 +1,81 @@
 import { ShuttleVehicle, ShuttleRoute, ShuttleStop, ShuttleShape } from "@/types";
+import { parseVehicles, parseRoutes, parseStops, parseShapes } from "./shuttle-schema";
 
-const BASE =
-  "https://api.peaktransit.com/v5/index.php?app_id=_RIDER&key=c620b8fe5fdbd6107da8c8381f4345b4";
-const AGENCY = 175;
+// Peak Transit is reached through our own /api/shuttle proxy, which caches
+// responses and keeps the API key on the server.
 
-function url(controller: string): string {
-  return `${BASE}&controller=${controller}&action=list&agencyID=${AGENCY}`;
+/**
+ * Why shuttle data couldn't be loaded: the request never completed
+ * (`network`), the server answered with an error status (`http`), or the
+ * payload didn't have the expected shape (`shape`).
+ */
+export type ShuttleErrorKind = "network" | "http" | "shape";
+
+export class ShuttleApiError extends Error {
+  constructor(
+    readonly kind: ShuttleErrorKind,
+    readonly resource: string,
+    message: string,
+    /** HTTP status, for `http` errors. */
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = "ShuttleApiError";
+  }
+}
+
+async function fetchJson<T>(resource: string, parse: (body: unknown) => T[]): Promise<T[]> {
+  let res: Response;
+  try {
+    res = await fetch(`/api/shuttle/${resource}`);
+  } catch (err) {
+    throw new ShuttleApiError("network", resource, (err as Error).message);
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    const detail = typeof body?.error === "string" ? body.error : res.statusText;
+    throw new ShuttleApiError("http", resource, `${res.status} ${detail}`.trim(), res.status);
+  }
+
+  let body: unknown;
+  try {
+    body = await res.json();
+  } catch {
+    throw new ShuttleApiError("shape", resource, "Response is not JSON");
+  }
+  try {
+    return parse(body);
+  } catch (err) {
+    throw new ShuttleApiError("shape", resource, (err as Error).message);
+  }
 }
 
-async function fetchJson<T>(controller: string, key: string): Promise<T[]> {
-  const res = await fetch(url(controller));
-  if (!res.ok) throw new Error(`Shuttle API error: ${res.status}`);
-  const data = await res.json();
-  if (Array.isArray(data)) return data;
-  if (key in data) return data[key];
-  return [];
+/** A short, user-facing reason for a failed shuttle fetch. */
+export function describeShuttleError(err: ShuttleApiError): string {
+  switch (err.kind) {
+    case "network":
+      return "Can't reach the server";
+    case "http":
+      return err.status === 503 ? "Shuttle tracking isn't set up" : `Server error (${err.status})`;
+    case "shape":
+      return "Peak Transit sent data we don't understand";
+  }
 }
 
 export async function fetchVehicles(): Promise<ShuttleVehicle[]> {
-  return fetchJson<ShuttleVehicle>("vehicles2", "vehicles");
+  return fetchJson("vehicles", parseVehicles);
 }
 
 export async function fetchRoutes(): Promise<ShuttleRoute[]> {
-  return fetchJson<ShuttleRoute>("route2", "routes");
+  return fetchJson("routes", parseRoutes);
 }
 
 export async function fetchStops(): Promise<ShuttleStop[]> {
-  return fetchJson<ShuttleStop>("stop2", "stop");
+  return fetchJson("stops", parseStops);
 }
 
 export async function fetchShapes(): Promise<ShuttleShape[]> {
-  return fetchJson<ShuttleShape>("shape2", "shape");
+  return fetchJson("shapes", parseShapes);
 }
 
 export function parseShapePoints(points: string): [number, number][] {
@@ -0,0 +1,130 @@
+// Server-only: fetches Peak Transit on behalf of every browser. Each resource
+// is fetched at most once per TTL, concurrent requests share one upstream
+// call, and the API key never leaves the server.
+
+export type ShuttleResource = "vehicles" | "routes" | "stops" | "shapes";
+
+interface Upstream {
+  controller: string;
+  /** Property holding the list when the response isn't a bare array. */
+  key: string;
+  /** Seconds a response is served from cache. */
+  ttl: number;
+}
+
+const UPSTREAM: Record<ShuttleResource, Upstream> = {
+  vehicles: { controller: "vehicles2", key: "vehicles", ttl: 5 },
+  routes: { controller: "route2", key: "routes", ttl: 10 * 60 },
+  stops: { controller: "stop2", key: "stop", ttl: 10 * 60 },
+  shapes: { controller: "shape2", key: "shape", ttl: 60 * 60 },
+};
+
+const BASE_URL = "https://api.peaktransit.com/v5/index.php";
+const UPSTREAM_TIMEOUT_MS = 8_000;
+
+/** When Peak Transit is down, keep serving the last good response for this long. */
+const MAX_STALE_MS = 10 * 60_000;
+
+/** PEAK_TRANSIT_KEY isn't set. */
+export class ShuttleConfigError extends Error {}
+
+/** Peak Transit failed, timed out or answered with something unusable. */
+export class UpstreamError extends Error {}
+
+export interface ShuttleResult {
+  data: unknown[];
+  /** Epoch milliseconds of the upstream fetch. */
+  fetchedAt: number;
+  cache: "hit" | "miss" | "stale";
+}
+
+interface Entry {
+  data: unknown[];
+  fetchedAt: number;
+}
+
+const cache = new Map<ShuttleResource, Entry>();
+const inflight = new Map<ShuttleResource, Promise<Entry>>();
+
+export function isShuttleResource(value: string): value is ShuttleResource {
+  return Object.hasOwn(UPSTREAM, value);
+}
+
+function upstreamUrl({ controller }: Upstream): string {
+  const key = process.env.PEAK_TRANSIT_KEY;
+  if (!key) throw new ShuttleConfigError("Shuttle data is not configured (PEAK_TRANSIT_KEY is unset)");
+  const params = new URLSearchParams({
+    app_id: process.env.PEAK_TRANSIT_APP_ID ?? "_RIDER",
+    key,
+    controller,
+    action: "list",
+    agencyID: process.env.PEAK_TRANSIT_AGENCY_ID ?? "175",
+  });
+  return `${BASE_URL}?${params}`;
+}
+
+async function fetchUpstream(resource: ShuttleResource): Promise<Entry> {
+  const upstream = UPSTREAM[resource];
+  let res: Response;
+  try {
+    res = await fetch(upstreamUrl(upstream), {
+      cache: "no-store",
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+  } catch (err) {
+    if (err instanceof ShuttleConfigError) throw err;
+    throw new UpstreamError(`Peak Transit unreachable: ${(err as Error).message}`);
+  }
+  if (!res.ok) throw new UpstreamError(`Peak Transit responded ${res.status}`);
+
+  let body: unknown;
+  try {
+    body = await res.json();
+  } catch {
+    throw new UpstreamError("Peak Transit sent invalid JSON");
+  }
+  if (Array.isArray(body)) return { data: body, fetchedAt: Date.now() };
+  const list = body && typeof body === "object" ? (body as Record<string, unknown>)[upstream.key] : null;
+  if (Array.isArray(list)) return { data: list, fetchedAt: Date.now() };
+  // Don't pass a format change off as "no vehicles"
+  throw new UpstreamError(`Peak Transit response has no "${upstream.key}" list`);
+}
+
+/** Seconds until a cached result expires; what clients may cache it for. */
+export function secondsFresh(resource: ShuttleResource, result: ShuttleResult): number {
+  const age = (Date.now() - result.fetchedAt) / 1000;
+  return Math.max(0, Math.floor(UPSTREAM[resource].ttl - age));
+}
+
+/**
+ * A resource from cache if still fresh, otherwise from Peak Transit. Callers
+ * arriving while a fetch is in flight wait for that fetch instead of
+ * starting their own. Falls back to a stale copy when the upstream fails.
+ */
+export async function getShuttleResource(resource: ShuttleResource): Promise<ShuttleResult> {
+  const cached = cache.get(resource);
+  const now = Date.now();
+  if (cached && now - cached.fetchedAt < UPSTREAM[resource].ttl * 1000) {
+    return { ...cached, cache: "hit" };
+  }
+
+  let pending = inflight.get(resource);
+  if (!pending) {
+    pending = fetchUpstream(resource)
+      .then((entry) => {
+        cache.set(resource, entry);
+        return entry;
+      })
+      .finally(() => inflight.delete(resource));
+    inflight.set(resource, pending);
+  }
+
+  try {
+    return { ...(await pending), cache: "miss" };
+  } catch (err) {
+    if (err instanceof UpstreamError && cached && now - cached.fetchedAt < MAX_STALE_MS) {
+      return { ...cached, cache: "stale" };
+    }
+    throw err;
+  }
+}
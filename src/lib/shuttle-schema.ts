@@ -0,0 +1,106 @@
+import { ShuttleVehicle, ShuttleRoute, ShuttleStop, ShuttleShape } from "@/types";
+
+// Runtime checks for Peak Transit payloads. Peak Transit sends some numbers
+// as strings ("12624"), so numeric strings are coerced; anything else that
+// doesn't match is rejected rather than cast.
+
+type Field = "number" | "string" | { type: "number" | "string"; fallback: number | string };
+
+type Schema<T> = { [K in keyof T]: Field };
+
+const vehicleSchema: Schema<ShuttleVehicle> = {
+  vehicleID: "number",
+  vehicleName: "string",
+  lat: "number",
+  lng: "number",
+  speed: { type: "number", fallback: 0 },
+  course: { type: "number", fallback: 0 },
+  routeID: "number",
+  APCPercentage: { type: "number", fallback: 0 },
+  positionUpdated: "number",
+};
+
+const routeSchema: Schema<ShuttleRoute> = {
+  routeID: "number",
+  shortName: { type: "string", fallback: "" },
+  longName: "string",
+  color: "string",
+  shapeID: "number",
+};
+
+const stopSchema: Schema<ShuttleStop> = {
+  stopID: "number",
+  longName: "string",
+  lat: "number",
+  lng: "number",
+};
+
+const shapeSchema: Schema<ShuttleShape> = {
+  shapeID: "number",
+  points: "string",
+};
+
+/** A value as the field's type, or undefined if it can't be read as one. */
+function coerce(value: unknown, type: "number" | "string"): number | string | undefined {
+  if (type === "number") {
+    const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+  }
+  if (typeof value === "string") return value;
+  return typeof value === "number" && Number.isFinite(value) ? String(value) : undefined;
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return "nothing";
+  const json = JSON.stringify(value);
+  return json.length > 40 ? `${json.slice(0, 40)}…` : json;
+}
+
+/** An item matching `schema`, or a description of the first field that doesn't. */
+function parseItem<T>(raw: unknown, schema: Schema<T>): T | string {
+  if (!raw || typeof raw !== "object") return `: expected an object, got ${describe(raw)}`;
+  const out: Record<string, unknown> = {};
+  for (const [name, field] of Object.entries(schema) as [string, Field][]) {
+    const type = typeof field === "string" ? field : field.type;
+    const value = (raw as Record<string, unknown>)[name];
+    let parsed = coerce(value, type);
+    if (parsed === undefined && typeof field !== "string" && value == null) parsed = field.fallback;
+    if (parsed === undefined) return `.${name}: expected a ${type}, got ${describe(value)}`;
+    out[name] = parsed;
+  }
+  return out as T;
+}
+
+/**
+ * Items of a list payload that match `schema`. Malformed items are dropped;
+ * throws (with the first problem) only when the payload isn't a list or
+ * none of a non-empty list is usable, since that means the format changed.
+ */
+function parseList<T>(body: unknown, schema: Schema<T>, resource: string): T[] {
+  if (!Array.isArray(body)) throw new TypeError(`${resource}: expected a list, got ${describe(body)}`);
+  const items: T[] = [];
+  let firstProblem: string | null = null;
+  body.forEach((raw, i) => {
+    const item = parseItem(raw, schema);
+    if (typeof item === "string") firstProblem ??= `${resource}[${i}]${item}`;
+    else items.push(item);
+  });
+  if (body.length > 0 && items.length === 0) throw new TypeError(firstProblem!);
+  return items;
+}
+
+export function parseVehicles(body: unknown): ShuttleVehicle[] {
+  return parseList(body, vehicleSchema, "vehicles");
+}
+
+export function parseRoutes(body: unknown): ShuttleRoute[] {
+  return parseList(body, routeSchema, "routes");
+}
+
+export function parseStops(body: unknown): ShuttleStop[] {
+  return parseList(body, stopSchema, "stops");
+}
+
+export function parseShapes(body: unknown): ShuttleShape[] {
+  return parseList(body, shapeSchema, "shapes");
+}
@@ -0,0 +1,340 @@
+import { useSyncExternalStore } from "react";
+import { ShuttleVehicle, ShuttleRoute, ShuttleStop, ShuttleShape } from "@/types";
+import {
+  ShuttleApiError,
+  fetchVehicles,
+  fetchRoutes,
+  fetchStops,
+  fetchShapes,
+} from "./shuttle-api";
+
+// One copy of the shuttle data for the whole page. Polling runs while any
+// component is subscribed, the tab is visible and the browser is online, so
+// the map, the panel and everything else always show the same snapshot.
+
+const VEHICLE_INTERVAL = 5_000;
+const STATIC_INTERVAL = 60_000;
+
+/** How often vehicle freshness is re-checked, whether or not fetches succeed. */
+const FRESHNESS_INTERVAL = 5_000;
+
+/** Longest wait between retries while backing off. */
+const MAX_BACKOFF = 2 * 60_000;
+
+/** Consecutive failures after which a feed stops retrying for a cool-down. */
+const CIRCUIT_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN = 3 * 60_000;
+
+/** Vehicle data older than this is shown greyed out with its "as of" time. */
+export const VEHICLES_STALE_AFTER = 20_000;
+
+/**
+ * How old a bus's own position fix may get before it's shown as stale, and
+ * then as lost (its tracker has probably died). Override with
+ * NEXT_PUBLIC_SHUTTLE_STALE_AFTER_SECONDS / NEXT_PUBLIC_SHUTTLE_LOST_AFTER_SECONDS.
+ */
+export interface FreshnessThresholds {
+  staleAfterMs: number;
+  lostAfterMs: number;
+}
+
+function secondsFromEnv(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n * 1000 : fallback;
+}
+
+export const VEHICLE_FRESHNESS: FreshnessThresholds = {
+  staleAfterMs: secondsFromEnv(process.env.NEXT_PUBLIC_SHUTTLE_STALE_AFTER_SECONDS, 2 * 60_000),
+  lostAfterMs: secondsFromEnv(process.env.NEXT_PUBLIC_SHUTTLE_LOST_AFTER_SECONDS, 15 * 60_000),
+};
+
+export type VehicleFreshness = "live" | "stale" | "lost";
+
+/** A vehicle with how current its own position report is. */
+export interface TrackedVehicle extends ShuttleVehicle {
+  freshness: VehicleFreshness;
+}
+
+export interface ShuttleData {
+  /** Vehicles currently in service (assigned to a route), lost ones included. */
+  vehicles: TrackedVehicle[];
+  routes: ShuttleRoute[];
+  stops: ShuttleStop[];
+  shapes: ShuttleShape[];
+  /** Epoch milliseconds of the last successful vehicle fetch. */
+  vehiclesUpdatedAt: number | null;
+  /** The last vehicle fetch is too old to pass the positions off as live. */
+  vehiclesStale: boolean;
+  /** Epoch milliseconds freshness was last worked out; what "N min ago" is measured from. */
+  checkedAt: number;
+  /** Epoch milliseconds of the last successful routes/stops/shapes fetch. */
+  staticUpdatedAt: number | null;
+  /** Why the latest vehicle or route fetch failed; cleared once it succeeds again. */
+  error: ShuttleApiError | null;
+  /** Epoch milliseconds of the first failure in the current run of failures. */
+  errorSince: number | null;
+  /** Epoch milliseconds of the next retry after a failure. */
+  retryAt: number | null;
+  /** A feed failed too often in a row and is waiting out a cool-down. */
+  circuitOpen: boolean;
+  /** The browser reports no connection; polling resumes when it's back. */
+  offline: boolean;
+}
+
+const EMPTY: ShuttleData = {
+  vehicles: [],
+  routes: [],
+  stops: [],
+  shapes: [],
+  vehiclesUpdatedAt: null,
+  vehiclesStale: false,
+  checkedAt: 0,
+  staticUpdatedAt: null,
+  error: null,
+  errorSince: null,
+  retryAt: null,
+  circuitOpen: false,
+  offline: false,
+};
+
+/** A polled feed and its retry state. */
+interface Feed {
+  refresh: () => Promise<boolean>;
+  interval: number;
+  /** Consecutive failures. */
+  failures: number;
+  failure: { error: ShuttleApiError; since: number } | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** When the next retry is due, while failing; kept across pauses. */
+  retryAt: number | null;
+  /** A refresh is running; it schedules the next attempt when it finishes. */
+  inflight: boolean;
+}
+
+let data = EMPTY;
+const listeners = new Set<() => void>();
+let staticRequest: Promise<boolean> | null = null;
+let polling = false;
+let freshnessTimer: ReturnType<typeof setInterval> | null = null;
+
+function feed(refresh: () => Promise<boolean>, interval: number): Feed {
+  return { refresh, interval, failures: 0, failure: null, timer: null, retryAt: null, inflight: false };
+}
+
+const vehicleFeed = feed(refreshVehicles, VEHICLE_INTERVAL);
+const staticFeed = feed(refreshStatic, STATIC_INTERVAL);
+const feeds = [vehicleFeed, staticFeed];
+
+function update(changes: Partial<ShuttleData>) {
+  const failing = feeds.filter((f) => f.failure);
+  const retries = feeds.flatMap((f) => (f.retryAt != null ? [f.retryAt] : []));
+  data = {
+    ...data,
+    ...changes,
+    error: failing[0]?.failure?.error ?? null,
+    errorSince: failing.length > 0 ? Math.min(...failing.map((f) => f.failure!.since)) : null,
+    retryAt: retries.length > 0 ? Math.min(...retries) : null,
+    circuitOpen: feeds.some((f) => f.failures >= CIRCUIT_THRESHOLD),
+  };
+  for (const listener of listeners) listener();
+}
+
+/** Epoch milliseconds of a vehicle's last position fix (Peak Transit sends epoch seconds). */
+export function positionTime(vehicle: ShuttleVehicle): number {
+  return vehicle.positionUpdated < 1e12 ? vehicle.positionUpdated * 1000 : vehicle.positionUpdated;
+}
+
+/** Whether a bus's position is current, getting old, or too old to show at all. */
+function vehicleFreshness(vehicle: ShuttleVehicle, now: number): VehicleFreshness {
+  const age = now - positionTime(vehicle);
+  if (age > VEHICLE_FRESHNESS.lostAfterMs) return "lost";
+  return age > VEHICLE_FRESHNESS.staleAfterMs ? "stale" : "live";
+}
+
+function classify(vehicles: ShuttleVehicle[], now: number): TrackedVehicle[] {
+  return vehicles.map((v) => ({ ...v, freshness: vehicleFreshness(v, now) }));
+}
+
+/**
+ * Re-check freshness against the clock, so buses fade and drop out (and the
+ * feed goes stale) even while no fetch is succeeding. Every component reads
+ * the result, so the map and the panel change at the same moment. Only
+ * notifies when something actually changed.
+ */
+function checkFreshness() {
+  const now = Date.now();
+  const vehicles = classify(data.vehicles, now);
+  const vehiclesStale =
+    data.vehiclesUpdatedAt != null && now - data.vehiclesUpdatedAt > VEHICLES_STALE_AFTER;
+  const changed =
+    vehiclesStale !== data.vehiclesStale ||
+    vehicles.some((v, i) => v.freshness !== data.vehicles[i].freshness);
+  // A stale bus's "last seen N min ago" also needs checkedAt to keep moving
+  if (changed || vehicles.some((v) => v.freshness === "stale")) {
+    update({ vehicles, vehiclesStale, checkedAt: now });
+  }
+}
+
+function asApiError(err: unknown): ShuttleApiError {
+  if (err instanceof ShuttleApiError) return err;
+  return new ShuttleApiError("shape", "shuttle", (err as Error).message);
+}
+
+function fail(target: Feed, err: unknown) {
+  target.failure = { error: asApiError(err), since: target.failure?.since ?? Date.now() };
+  update({});
+}
+
+async function refreshVehicles(): Promise<boolean> {
+  try {
+    const vehicles = await fetchVehicles();
+    vehicleFeed.failure = null;
+    const now = Date.now();
+    update({
+      vehicles: classify(vehicles.filter((v) => v.routeID !== -1), now),
+      vehiclesUpdatedAt: now,
+      vehiclesStale: false,
+      checkedAt: now,
+    });
+    return true;
+  } catch (err) {
+    fail(vehicleFeed, err);
+    return false;
+  }
+}
+
+function refreshStatic(): Promise<boolean> {
+  staticRequest ??= Promise.all([fetchRoutes(), fetchStops(), fetchShapes()])
+    .then(([routes, stops, shapes]) => {
+      staticFeed.failure = null;
+      update({ routes, stops, shapes, staticUpdatedAt: Date.now() });
+      return true;
+    })
+    .catch((err) => {
+      fail(staticFeed, err);
+      return false;
+    })
+    .finally(() => {
+      staticRequest = null;
+    });
+  return staticRequest;
+}
+
+/**
+ * How long to wait before a feed's next attempt: its normal interval after a
+ * success; exponential backoff with jitter after a failure, so a room full of
+ * clients on flaky Wi-Fi doesn't retry in lockstep; and a long cool-down once
+ * the circuit opens, after which a single probe decides whether it closes.
+ */
+function nextDelay(target: Feed): number {
+  if (target.failures === 0) return target.interval;
+  if (target.failures >= CIRCUIT_THRESHOLD) return CIRCUIT_COOLDOWN;
+  const backoff = Math.min(target.interval * 2 ** target.failures, MAX_BACKOFF);
+  return backoff / 2 + (Math.random() * backoff) / 2;
+}
+
+function schedule(target: Feed, delay: number) {
+  if (target.timer) clearTimeout(target.timer);
+  target.retryAt = target.failures > 0 ? Date.now() + delay : null;
+  target.timer = setTimeout(() => run(target), delay);
+}
+
+async function run(target: Feed) {
+  target.timer = null;
+  if (target.inflight) return;
+  target.inflight = true;
+  const ok = await target.refresh();
+  target.inflight = false;
+  target.failures = ok ? 0 : target.failures + 1;
+  const delay = nextDelay(target);
+  // Paused meanwhile: remember when the retry is due for resume() to honour
+  if (polling) schedule(target, delay);
+  else target.retryAt = target.failures > 0 ? Date.now() + delay : null;
+  update({});
+}
+
+/**
+ * Pick a feed back up, due in `delay` ms if it was healthy. A failing feed
+ * keeps its pending retry time, so switching tabs can't skip the backoff or
+ * an open circuit, and a refresh still in flight schedules its own next
+ * attempt rather than overlapping with a new one.
+ */
+function resume(target: Feed, delay: number) {
+  if (target.inflight) return;
+  if (target.retryAt != null) delay = Math.max(0, target.retryAt - Date.now());
+  schedule(target, delay);
+}
+
+function startPolling() {
+  if (polling || data.offline) return;
+  polling = true;
+  resume(vehicleFeed, 0);
+  const age = data.staticUpdatedAt == null ? Infinity : Date.now() - data.staticUpdatedAt;
+  resume(staticFeed, Math.max(0, STATIC_INTERVAL - age));
+}
+
+function stopPolling() {
+  polling = false;
+  for (const f of feeds) {
+    if (f.timer) clearTimeout(f.timer);
+    f.timer = null;
+  }
+}
+
+/** Nobody looks at a hidden tab; resume (refreshing right away unless backing off) when it's shown again. */
+function handleVisibility() {
+  if (document.hidden) {
+    stopPolling();
+    update({});
+  } else {
+    startPolling();
+  }
+}
+
+/** Going offline stops polling; coming back resumes it, still honouring any backoff. */
+function handleConnectivity() {
+  if (!navigator.onLine) {
+    stopPolling();
+    update({ offline: true });
+    return;
+  }
+  update({ offline: false });
+  if (!document.hidden) startPolling();
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  if (listeners.size === 1) {
+    document.addEventListener("visibilitychange", handleVisibility);
+    window.addEventListener("online", handleConnectivity);
+    window.addEventListener("offline", handleConnectivity);
+    data = { ...data, offline: !navigator.onLine };
+    freshnessTimer = setInterval(checkFreshness, FRESHNESS_INTERVAL);
+    if (!document.hidden) startPolling();
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      document.removeEventListener("visibilitychange", handleVisibility);
+      window.removeEventListener("online", handleConnectivity);
+      window.removeEventListener("offline", handleConnectivity);
+      if (freshnessTimer) clearInterval(freshnessTimer);
+      freshnessTimer = null;
+      stopPolling();
+    }
+  };
+}
+
+/** The shared shuttle data; subscribing starts polling. */
+export function useShuttleData(): ShuttleData {
+  return useSyncExternalStore(subscribe, () => data, () => EMPTY);
+}
+
+/** Routes once they've loaded, fetching them if nothing has yet. Rejects if that fetch fails. */
+export async function loadRoutes(): Promise<ShuttleRoute[]> {
+  if (data.staticUpdatedAt == null) await refreshStatic();
+  if (data.staticUpdatedAt == null) {
+    throw staticFeed.failure?.error ?? new Error("Shuttle routes unavailable");
+  }
+  return data.routes;
+}
@@ -0,0 +1,47 @@
+import { ParkingLot, PermitType } from "@/types";
+import { EasternTime, addMinutes, formatStamp, minutesBetween, toStamp } from "./time-utils";
+import { cursorAt, findNextChange, isOpenFor, resolveAccess } from "./rule-engine";
+import { lotForViewer, resolveDay } from "./availability";
+import { getActiveClosure, getClosuresFor } from "./closures";
+import { formatCountdown } from "./transitions";
+
+export interface StayLimit {
+  /** Eastern timestamp the car must be moved by, or null if nothing changes within a week. */
+  until: string | null;
+  minutesUntil: number | null;
+}
+
+/**
+ * How long a car arriving at `et` may stay before the lot stops being
+ * available to its permit, either by rule or by a scheduled closure. Returns
+ * null when the lot can't be parked in at `et` at all.
+ */
+export function getStayLimit(
+  lot: ParkingLot,
+  et: EasternTime,
+  permit: PermitType | null,
+): StayLimit | null {
+  if (getActiveClosure(lot, et)) return null;
+  const parked = lotForViewer(lot, et, permit);
+  if (!isOpenFor(resolveAccess(parked, cursorAt(et), resolveDay), permit)) return null;
+
+  const now = toStamp(et.date, et.minutesSinceMidnight);
+  let minutesUntil = findNextChange(parked, et, resolveDay, permit)?.minutesUntil ?? null;
+  for (const c of getClosuresFor(lot)) {
+    if (c.start <= now) continue;
+    const m = minutesBetween(now, c.start);
+    if (minutesUntil == null || m < minutesUntil) minutesUntil = m;
+  }
+
+  return {
+    until: minutesUntil == null ? null : addMinutes(now, minutesUntil),
+    minutesUntil,
+  };
+}
+
+/** e.g. "OK until Mon 3:00 AM (14h 20m)"; null when the lot isn't available. */
+export function formatStayLimit(limit: StayLimit | null, et: EasternTime): string | null {
+  if (!limit) return null;
+  if (limit.until == null || limit.minutesUntil == null) return "OK for 7+ days";
+  return `OK until ${formatStamp(limit.until, et.date)} (${formatCountdown(limit.minutesUntil)})`;
+}
@@ -13,6 +13,7 @@ const easternFormat = new Intl.DateTimeFormat("en-US", {
 export interface EasternTime {
   minutesSinceMidnight: number;
   dayOfWeek: number; // 0=Sunday, 6=Saturday
+  date: string; // YYYY-MM-DD
   formatted: string;
 }
 
@@ -37,11 +38,83 @@ export function getEasternTime(now: Date = new Date()): EasternTime {
   };
   const dayOfWeek = dayMap[weekday] ?? 0;
 
+  const pad = (v: string) => v.padStart(2, "0");
+  const date = `${get("year")}-${pad(get("month"))}-${pad(get("day"))}`;
+
+  const formatted = formatMinutes(minutesSinceMidnight);
+
+  return { minutesSinceMidnight, dayOfWeek, date, formatted };
+}
+
+/** Format minutes since midnight as a 12-hour clock time, e.g. "4:30 PM". */
+export function formatMinutes(mins: number): string {
+  const hour = Math.floor(mins / 60) % 24;
+  const minute = mins % 60;
   const h = hour % 12 || 12;
   const ampm = hour >= 12 ? "PM" : "AM";
-  const formatted = `${h}:${minute.toString().padStart(2, "0")} ${ampm}`;
+  return `${h}:${minute.toString().padStart(2, "0")} ${ampm}`;
+}
+
+/** Shift a YYYY-MM-DD date by a number of days. */
+export function addDays(date: string, days: number): string {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** Eastern local timestamp "YYYY-MM-DDTHH:MM", comparable as a string. */
+export function toStamp(date: string, mins: number): string {
+  const h = Math.floor(mins / 60).toString().padStart(2, "0");
+  const m = (mins % 60).toString().padStart(2, "0");
+  return `${date}T${h}:${m}`;
+}
+
+/** Minutes from one Eastern timestamp to another (ignores DST shifts). */
+export function minutesBetween(from: string, to: string): number {
+  const parse = (stamp: string) => {
+    const [y, mo, d, h, mi] = stamp.split(/[-T:]/).map(Number);
+    return Date.UTC(y, mo - 1, d, h, mi) / 60_000;
+  };
+  return parse(to) - parse(from);
+}
+
+/** Shift an Eastern timestamp by a number of minutes (ignores DST shifts). */
+export function addMinutes(stamp: string, minutes: number): string {
+  const [y, mo, d, h, mi] = stamp.split(/[-T:]/).map(Number);
+  const shifted = new Date(Date.UTC(y, mo - 1, d, h, mi + minutes));
+  return shifted.toISOString().slice(0, 16);
+}
+
+/** Convert an Eastern wall-clock timestamp ("YYYY-MM-DDTHH:MM") to an instant. */
+export function fromEasternStamp(stamp: string): Date {
+  const [y, mo, d, h, mi] = stamp.split(/[-T:]/).map(Number);
+  const guess = Date.UTC(y, mo - 1, d, h, mi);
+  // Shift by however far Eastern wall time at the guessed instant is from the target
+  const et = getEasternTime(new Date(guess));
+  const offset = minutesBetween(toStamp(et.date, et.minutesSinceMidnight), stamp);
+  return new Date(guess + offset * 60_000);
+}
+
+/** Format a YYYY-MM-DD date as "Tue, Oct 20". */
+export function formatDate(date: string): string {
+  const [y, mo, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, mo - 1, d)).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+const SHORT_DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 
-  return { minutesSinceMidnight, dayOfWeek, formatted };
+/** Format a timestamp as "4:30 PM" when it falls on `today`, else "Sat 4:30 PM". */
+export function formatStamp(stamp: string, today: string): string {
+  const [date, time] = stamp.split("T");
+  const [h, m] = time.split(":").map(Number);
+  const clock = formatMinutes(h * 60 + m);
+  if (date === today) return clock;
+  const [y, mo, d] = date.split("-").map(Number);
+  return `${SHORT_DAYS[new Date(Date.UTC(y, mo - 1, d)).getUTCDay()]} ${clock}`;
 }
 
 export function isWeekend(dayOfWeek: number): boolean {
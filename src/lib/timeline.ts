@@ -0,0 +1,94 @@
+import { ParkingLot, PermitType, StatusColor } from "@/types";
+import { TRANSITION_WINDOW } from "@/data/rules";
+import { EasternTime, addDays, formatMinutes, minutesBetween, toStamp } from "./time-utils";
+import { listEdges } from "./rule-engine";
+import { getLotStatus, resolveDay } from "./availability";
+import { getClosuresFor } from "./closures";
+
+const DAY = 24 * 60;
+
+export interface TimelineSegment {
+  /** Minutes since midnight, inclusive. */
+  start: number;
+  /** Minutes since midnight, exclusive (1440 for end of day). */
+  end: number;
+  color: StatusColor;
+  label: string;
+}
+
+export interface TimelineDay {
+  date: string;
+  dayOfWeek: number;
+  segments: TimelineSegment[];
+}
+
+/** The Eastern time `offset` minutes after midnight of `start`'s date. */
+function easternTimeAt(start: EasternTime, offset: number): EasternTime {
+  const days = Math.floor(offset / DAY);
+  const mins = offset % DAY;
+  return {
+    date: addDays(start.date, days),
+    dayOfWeek: (start.dayOfWeek + days) % 7,
+    minutesSinceMidnight: mins,
+    formatted: formatMinutes(mins),
+  };
+}
+
+/**
+ * A lot's status for a permit holder over whole days, starting at midnight
+ * of `et`'s date.
+ *
+ * Status can only change at a rule edge, a closure boundary, or
+ * TRANSITION_WINDOW before either, so evaluating getLotStatus at just those
+ * points yields exact intervals.
+ */
+export function getLotTimeline(
+  lot: ParkingLot,
+  et: EasternTime,
+  permit: PermitType | null,
+  days = 7,
+): TimelineDay[] {
+  const start = easternTimeAt(et, 0);
+  const span = days * DAY;
+
+  const changes = listEdges(
+    { date: start.date, day: start.dayOfWeek, mins: 0 },
+    span,
+    resolveDay,
+  );
+  const midnight = toStamp(start.date, 0);
+  for (const c of getClosuresFor(lot)) {
+    changes.push(minutesBetween(midnight, c.start), minutesBetween(midnight, c.end));
+  }
+
+  const points = new Set<number>([0]);
+  for (let d = 1; d < days; d++) points.add(d * DAY);
+  for (const offset of changes) {
+    for (const p of [offset, offset - TRANSITION_WINDOW]) {
+      if (p > 0 && p < span) points.add(p);
+    }
+  }
+  const sorted = [...points].sort((a, b) => a - b);
+
+  const result: TimelineDay[] = [];
+  for (let d = 0; d < days; d++) {
+    const at = easternTimeAt(start, d * DAY);
+    result.push({ date: at.date, dayOfWeek: at.dayOfWeek, segments: [] });
+  }
+
+  sorted.forEach((offset, i) => {
+    const next = sorted[i + 1] ?? span;
+    const status = getLotStatus(lot, easternTimeAt(start, offset), permit);
+    const day = result[Math.floor(offset / DAY)];
+    const segStart = offset % DAY;
+    const segEnd = next - Math.floor(offset / DAY) * DAY;
+    const prev = day.segments[day.segments.length - 1];
+    if (prev && prev.color === status.color && prev.label === status.label) {
+      prev.end = segEnd;
+    } else {
+      day.segments.push({ start: segStart, end: segEnd, color: status.color, label: status.label });
+    }
+  });
+
+  return result;
+}
@@ -1,42 +1,19 @@
-import {
-  OVERNIGHT_START,
-  BUSINESS_START,
-  OPEN_START,
-} from "@/data/rules";
-import { EasternTime, isWeekend } from "./time-utils";
+import { parkingLots } from "@/data/lots";
+import { EasternTime } from "./time-utils";
+import { findNextTransition } from "./rule-engine";
+import { resolveDay } from "./availability";
 
 interface NextTransition {
   label: string;
   minutesUntil: number;
 }
 
-function minutesUntil(current: number, target: number): number {
-  if (target > current) return target - current;
-  return target + 24 * 60 - current;
-}
-
-export function getNextTransition(et: EasternTime): NextTransition {
-  const { minutesSinceMidnight: mins, dayOfWeek } = et;
-  const weekend = isWeekend(dayOfWeek);
-
-  if (mins >= OVERNIGHT_START && mins < BUSINESS_START) {
-    return {
-      label: weekend ? "All lots open" : "Business hours start",
-      minutesUntil: minutesUntil(mins, BUSINESS_START),
-    };
-  }
-
-  if (!weekend && mins >= BUSINESS_START && mins < OPEN_START) {
-    return {
-      label: "Open hours start",
-      minutesUntil: minutesUntil(mins, OPEN_START),
-    };
-  }
-
-  // Open hours or weekend daytime → next overnight
+export function getNextTransition(et: EasternTime): NextTransition | null {
+  const next = findNextTransition(et, parkingLots, resolveDay);
+  if (!next) return null;
   return {
-    label: "Overnight restriction",
-    minutesUntil: minutesUntil(mins, OVERNIGHT_START),
+    label: next.period?.startLabel ?? "Rules change",
+    minutesUntil: next.minutesUntil,
   };
 }
 
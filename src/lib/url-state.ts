@@ -0,0 +1,82 @@
+import { StatusColor } from "@/types";
+import { parkingLots } from "@/data/lots";
+import { campusBuildings } from "@/data/buildings";
+
+// Map state mirrored in the query string so views can be shared, e.g.
+// ?lot=197880&mode=parking&filter=student&to=case-geyer-library&z=17&c=42.8187,-75.5420
+
+export type MapMode = "parking" | "shuttle";
+
+/** What a link can set. Anything missing or invalid is left to the defaults. */
+export interface MapUrlState {
+  lotId: string | null;
+  mode: MapMode | null;
+  search: string;
+  statusFilters: StatusColor[];
+  categoryFilters: string[];
+  /** Building the lots are ranked against. */
+  destinationId: string | null;
+  zoom: number | null;
+  center: [number, number] | null;
+}
+
+const STATUS_COLORS: StatusColor[] = ["green", "yellow", "orange", "red", "gray"];
+const CATEGORY_FILTERS = ["student", "employee", "overnightExempt", "visitor", "accessible"];
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 20;
+
+/** Query parameters owned by the map; others (e.g. `admin`) are left alone. */
+const KEYS = ["lot", "mode", "q", "status", "filter", "to", "z", "c"];
+
+function list<T extends string>(value: string | null, allowed: readonly T[]): T[] {
+  if (!value) return [];
+  return value.split(",").filter((v): v is T => (allowed as readonly string[]).includes(v));
+}
+
+function parseCenter(value: string | null): [number, number] | null {
+  const parts = value?.split(",").map(Number);
+  if (!parts || parts.length !== 2 || parts.some((n) => !Number.isFinite(n))) return null;
+  const [lat, lng] = parts;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return [lat, lng];
+}
+
+export function parseUrlState(query: string): MapUrlState {
+  const params = new URLSearchParams(query);
+  const lot = params.get("lot");
+  const mode = params.get("mode");
+  const to = params.get("to");
+  const zoom = Number(params.get("z") ?? NaN);
+  return {
+    lotId: lot && parkingLots.some((l) => l.id === lot) ? lot : null,
+    mode: mode === "parking" || mode === "shuttle" ? mode : null,
+    search: params.get("q") ?? "",
+    statusFilters: list(params.get("status"), STATUS_COLORS),
+    categoryFilters: list(params.get("filter"), CATEGORY_FILTERS),
+    destinationId: to && campusBuildings.some((b) => b.id === to) ? to : null,
+    zoom: Number.isInteger(zoom) && zoom >= MIN_ZOOM && zoom <= MAX_ZOOM ? zoom : null,
+    center: parseCenter(params.get("c")),
+  };
+}
+
+/**
+ * The query string for `state`, keeping any unrelated parameters already in
+ * `current`. Empty values are dropped so default views get short links.
+ */
+export function formatUrlState(state: MapUrlState, current: string): string {
+  const params = new URLSearchParams(current);
+  for (const key of KEYS) params.delete(key);
+  if (state.lotId) params.set("lot", state.lotId);
+  if (state.mode) params.set("mode", state.mode);
+  if (state.search) params.set("q", state.search);
+  if (state.statusFilters.length > 0) params.set("status", state.statusFilters.join(","));
+  if (state.categoryFilters.length > 0) params.set("filter", state.categoryFilters.join(","));
+  if (state.destinationId) params.set("to", state.destinationId);
+  if (state.zoom != null) params.set("z", String(state.zoom));
+  if (state.center) {
+    params.set("c", state.center.map((n) => Number(n.toFixed(5))).join(","));
+  }
+  // Commas are safe in a query string, and flags like `?admin` need no `=`
+  const query = params.toString().replace(/%2C/g, ",").replace(/=(?=&|$)/g, "");
+  return query ? `?${query}` : "";
+}
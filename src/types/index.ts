@@ -1,9 +1,30 @@
-export type LotCategory = "student" | "employee" | "restricted";
+export type LotCategory = "student" | "employee" | "visitor" | "restricted";
 
-export type StatusColor = "green" | "yellow" | "orange" | "red";
+/** Who is looking at the map — decides which lots count as available. */
+export type PermitType = "student" | "commuter" | "employee" | "visitor" | "accessible";
+
+export type StatusColor = "green" | "yellow" | "orange" | "red" | "gray";
 
 export type StatusLabel = string;
 
+/** Spaces set aside for visitors — a sub-area of a lot, or all of a visitor lot. */
+export interface VisitorSpaces {
+  /** Number of stalls, once counted; omitted while unknown. */
+  count?: number;
+  /** Whether visitors need a daily pass to use these spaces during business hours. */
+  passRequired: boolean;
+  note?: string;
+}
+
+/** A group of accessible (ADA) stalls within a lot, marked where they sit. */
+export interface AccessibleSpace {
+  lat: number;
+  lng: number;
+  /** Number of stalls, once counted; omitted while unknown. */
+  count?: number;
+  note?: string;
+}
+
 export interface ParkingLot {
   id: string;
   name: string;
@@ -12,6 +33,17 @@ export interface ParkingLot {
   lat: number;
   lng: number;
   polygon: [number, number][];
+  /**
+   * Total marked stalls, including the accessible, EV and visitor spaces
+   * below. Only set from a published or hand-counted figure; size sorting,
+   * open-space totals and "X of Y free" stay hidden for lots without one.
+   */
+  capacity?: number;
+  /** Stalls with EV charging. */
+  evSpaces?: number;
+  visitorSpaces?: VisitorSpaces;
+  /** Accessible stalls, usable by placard holders whatever the rest of the lot allows. */
+  accessibleSpaces?: AccessibleSpace[];
 }
 
 export interface LotStatus {
@@ -20,6 +52,43 @@ export interface LotStatus {
   reason: string;
 }
 
+/** How full a driver reported a lot to be. */
+export type FullnessLevel = "full" | "almostFull" | "plenty";
+
+export interface FullnessReport {
+  lotId: string;
+  level: FullnessLevel;
+  /** Epoch milliseconds. */
+  reportedAt: number;
+}
+
+/** Recent reports for a lot, combined with newer reports counting for more. */
+export interface LotFullness {
+  level: FullnessLevel;
+  /** Unexpired reports that went into `level`. */
+  reports: number;
+  /** Epoch milliseconds of the newest report. */
+  lastReportedAt: number;
+}
+
+/** An occupancy count from a gate counter or sensor. */
+export interface CountReading {
+  lotId: string;
+  occupied: number;
+  /** Epoch milliseconds the count was taken. */
+  at: number;
+}
+
+/** The latest live count for a lot. */
+export interface LiveCount {
+  occupied: number;
+  /** Null while the lot's capacity isn't known. */
+  free: number | null;
+  capacity: number | null;
+  /** Epoch milliseconds the count was taken. */
+  at: number;
+}
+
 export interface ShuttleVehicle {
   vehicleID: number;
   vehicleName: string;
@@ -29,6 +98,7 @@ export interface ShuttleVehicle {
   course: number;
   routeID: number;
   APCPercentage: number;
+  /** When the bus last reported its position, in epoch seconds. */
   positionUpdated: number;
 }
 